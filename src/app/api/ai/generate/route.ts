@@ -1,29 +1,108 @@
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import OpenAI from 'openai';
 import { db } from '@/db';
-import { projects, agentMemory, agentExecutions, agentLearnings } from '@/db/schema';
-import { eq, desc } from 'drizzle-orm';
-
-interface FileItem {
-  id: string;
-  name: string;
-  type: 'file' | 'folder';
-  content?: string;
-  children?: FileItem[];
-  path: string;
-}
-
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
+import { projects, agentExecutions, chatMessages } from '@/db/schema';
+import { eq, and, asc, sql, inArray, isNotNull, isNull, or } from 'drizzle-orm';
+import { z } from 'zod';
+import { runSandboxedCommand, SandboxError } from '@/lib/sandbox';
+import { applySearchReplace, SearchReplaceEdit } from '@/lib/patch';
+import { searchFiles } from '@/lib/file-search';
+import { getLLMProvider, meterProvider, LLMMessage, LLMProvider, LLMToolDefinition } from '@/lib/llm-provider';
+import { createUsageLedger, checkQuota } from '@/lib/ai-usage';
+import { changedFilesBetween, formatIssue, runVerifiers, VerificationIssue } from '@/lib/verifiers';
+import { buildPreviewHTML } from '@/lib/preview-html';
+import { renderPreview } from '@/lib/preview-render';
+import { createPreviewDeployment } from '@/lib/preview-deployments';
+import {
+  ProjectSettings,
+  SettingChange,
+  SettingsSection,
+  maskSettingChange,
+  resolveProjectSettings,
+  settingsForAgent,
+  updateProjectSettings,
+} from '@/lib/project-settings';
+import {
+  buildFileContext,
+  compactConversation,
+  contextBudgetFor,
+  ConversationMessage,
+  ConversationSummary,
+} from '@/lib/context-compaction';
+import {
+  Clarification,
+  ClarifyingQuestion,
+  HEARTBEAT_INTERVAL_MS,
+  MAX_CLARIFICATIONS,
+  PendingQuestion,
+  clarificationsPromptSection,
+  clarifyingQuestionSchema,
+  markAbandonedExecutions,
+  resumableOutcomes,
+} from '@/lib/agent-executions';
+import { ProjectSnapshot, snapshotColumns, takeSnapshot } from '@/lib/execution-snapshots';
+import { ProposedChanges } from '@/lib/change-review';
+import {
+  AgentRole,
+  RoleTranscript,
+  StepReview,
+  TranscriptEntry,
+  formatFileDiff,
+  runPlannerRole,
+  runStepRoles,
+} from '@/lib/agent-roles';
+import { ProjectInstructions, instructionsPromptSection, loadProjectInstructions } from '@/lib/project-instructions';
+import {
+  AgentModeError,
+  AgentRequest,
+  answerQuestion,
+  agentRequestSchema,
+  askResponseSchema,
+  editResponseSchema,
+  generateResponseSchema,
+  scaffoldSite,
+} from '@/lib/agent-modes';
+import {
+  createRetrievalContext,
+  retrieveRelevantLearnings,
+  retrieveRelevantMemories,
+  storeLearning,
+  storeMemory,
+} from '@/lib/agent-memory';
+import {
+  FileItem,
+  FileTreeError,
+  createItemId,
+  flattenFiles,
+  insertItem,
+  mergeFileTrees,
+  ensureFolder,
+  joinPath,
+  normalizePath,
+  parentPath,
+  relocateItem,
+  removeItem,
+  resolveItem,
+  updateItem,
+} from '@/lib/file-tree';
 
 interface ToolResult {
   tool: string;
+  args?: Record<string, unknown>;
   success: boolean;
   result: unknown;
   stepId: string;
+  attempt?: number;
+}
+
+interface StepAttempt {
+  attempt: number;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  score: number;
+  issues: string[];
 }
 
 interface PlanStep {
@@ -42,6 +121,9 @@ interface PlanStep {
     score: number;
     issues: string[];
   };
+  attempts?: StepAttempt[];
+  startedAt?: string;
+  finishedAt?: string;
 }
 
 interface ExecutionPlan {
@@ -53,6 +135,18 @@ interface ExecutionPlan {
   estimatedTools: number;
 }
 
+type AgentEvent =
+  | { type: 'plan_generated'; plan: ExecutionPlan }
+  | { type: 'execution_started'; executionId: string; resumed: boolean }
+  | { type: 'step_started'; stepId: string; stepIndex: number; attempt: number; description: string }
+  | { type: 'tool_call_started'; stepId: string; tool: string; args: Record<string, unknown> }
+  | { type: 'tool_call_finished'; stepId: string; toolResult: ToolResult }
+  | { type: 'step_evaluated'; stepId: string; status: PlanStep['status']; retryCount: number; evaluation?: PlanStep['evaluation'] }
+  | { type: 'file_changed'; stepId: string; tool: string; files: FileItem[] }
+  | { type: 'preview_checked'; iteration: number; problems: string[]; skipped?: string }
+  | { type: 'report'; result: z.infer<typeof editResponseSchema> }
+  | { type: 'error'; error: string };
+
 interface ExecutionState {
   planGenerated: boolean;
   currentStepIndex: number;
@@ -64,239 +158,455 @@ interface ExecutionState {
   overallSuccess: boolean;
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+interface ExecutionCheckpoint {
+  files: FileItem[];
+  baseFiles: FileItem[];
+  baseUpdatedAt: string | null;
+  executionState: ExecutionState;
+  toolResults: ToolResult[];
+  finalResponse: string;
+  totalIterations: number;
+}
 
-const openaiImageClient = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+const fileMutatingTools = new Set([
+  'create_file', 'create_folder', 'edit_file', 'patch_file', 'delete_file', 'move_file', 'rename_file', 'generate_image',
+]);
+
+const readOnlyTools = new Set(['read_file', 'list_files', 'search_files']);
 
-const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const tools: LLMToolDefinition[] = [
   {
-    type: 'function',
-    function: {
-      name: 'generate_image',
-      description: 'Generate an image using AI based on a text prompt.',
-      parameters: {
-        type: 'object',
-        properties: {
-          prompt: { type: 'string', description: 'Detailed description of the image to generate' },
-          filename: { type: 'string', description: 'Filename for the generated image' },
-          size: { type: 'string', enum: ['1024x1024', '512x512', '256x256'], description: 'Image size' },
-        },
-        required: ['prompt', 'filename', 'size'],
+    name: 'generate_image',
+    description: 'Generate an image using AI based on a text prompt.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Detailed description of the image to generate' },
+        filename: { type: 'string', description: 'Filename for the generated image' },
+        size: { type: 'string', enum: ['1024x1024', '512x512', '256x256'], description: 'Image size' },
       },
+      required: ['prompt', 'filename', 'size'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'create_file',
-      description: 'Create a new file with the specified content.',
-      parameters: {
-        type: 'object',
-        properties: {
-          filename: { type: 'string', description: 'Name of the file to create' },
-          content: { type: 'string', description: 'Complete content of the file' },
-          path: { type: 'string', description: 'Path where the file should be created' },
-        },
-        required: ['filename', 'content', 'path'],
+    name: 'create_file',
+    description: 'Create a new file with the specified content. Missing parent folders are created automatically.',
+    parameters: {
+      type: 'object',
+      properties: {
+        filename: { type: 'string', description: 'Name of the file to create' },
+        content: { type: 'string', description: 'Complete content of the file' },
+        path: { type: 'string', description: 'Folder the file should be created in, e.g. "/" or "/src/components"' },
       },
+      required: ['filename', 'content', 'path'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'edit_file',
-      description: 'Edit an existing file by replacing its content.',
-      parameters: {
-        type: 'object',
-        properties: {
-          fileId: { type: 'string', description: 'ID of the file to edit' },
-          newContent: { type: 'string', description: 'New content for the file' },
-          newFilename: { type: 'string', description: 'New filename if renaming' },
-        },
-        required: ['fileId', 'newContent', 'newFilename'],
+    name: 'edit_file',
+    description: 'Replace the entire content of an existing file. Only use this for small files or full rewrites; prefer patch_file for targeted changes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'ID or path of the file to edit' },
+        newContent: { type: 'string', description: 'New content for the file' },
       },
+      required: ['file', 'newContent'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'delete_file',
-      description: 'Delete a file from the project.',
-      parameters: {
-        type: 'object',
-        properties: {
-          fileId: { type: 'string', description: 'ID of the file to delete' },
-          filename: { type: 'string', description: 'Name of the file being deleted' },
+    name: 'patch_file',
+    description: 'Edit part of an existing file with search/replace blocks. Each search block must match exactly one location in the current file content (copy it verbatim, including enough surrounding lines to be unique). Edits are applied in order.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'ID or path of the file to patch' },
+        edits: {
+          type: 'array',
+          description: 'Search/replace blocks to apply in order',
+          items: {
+            type: 'object',
+            properties: {
+              search: { type: 'string', description: 'Exact text currently in the file' },
+              replace: { type: 'string', description: 'Text to replace it with' },
+            },
+            required: ['search', 'replace'],
+            additionalProperties: false,
+          },
         },
-        required: ['fileId', 'filename'],
       },
+      required: ['file', 'edits'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'run_terminal',
-      description: 'Execute a terminal command.',
-      parameters: {
-        type: 'object',
-        properties: {
-          command: { type: 'string', description: 'The terminal command to execute' },
-        },
-        required: ['command'],
+    name: 'delete_file',
+    description: 'Delete a file or folder (including its contents) from the project.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'ID or path of the file or folder to delete' },
       },
+      required: ['file'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'install_package',
-      description: 'Install an npm package.',
-      parameters: {
-        type: 'object',
-        properties: {
-          packageName: { type: 'string', description: 'Name of the npm package' },
-          version: { type: 'string', description: 'Version of the package' },
-          isDev: { type: 'boolean', description: 'Whether dev dependency' },
-        },
-        required: ['packageName', 'version', 'isDev'],
+    name: 'create_folder',
+    description: 'Create a folder. Missing parent folders are created automatically.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Full path of the folder, e.g. "/src/components"' },
       },
+      required: ['path'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'read_file',
-      description: 'Read the contents of a file.',
-      parameters: {
-        type: 'object',
-        properties: {
-          fileId: { type: 'string', description: 'ID of the file to read' },
-        },
-        required: ['fileId'],
+    name: 'move_file',
+    description: 'Move a file or folder into another folder, keeping its name. The destination folder is created if missing.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'ID or path of the file or folder to move' },
+        destination: { type: 'string', description: 'Path of the destination folder, e.g. "/src"' },
       },
+      required: ['file', 'destination'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'list_files',
-      description: 'List all files in the project.',
-      parameters: {
-        type: 'object',
-        properties: {},
-        required: [],
+    name: 'rename_file',
+    description: 'Rename a file or folder in place.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'ID or path of the file or folder to rename' },
+        newName: { type: 'string', description: 'New name without a path, e.g. "main.js"' },
       },
+      required: ['file', 'newName'],
     },
   },
   {
-    type: 'function',
-    function: {
-      name: 'complete_step',
-      description: 'Signal that the current plan step is complete and ready for evaluation.',
-      parameters: {
-        type: 'object',
-        properties: {
-          stepId: { type: 'string', description: 'ID of the step being completed' },
-          outcome: { type: 'string', description: 'Description of what was accomplished' },
-        },
-        required: ['stepId', 'outcome'],
+    name: 'run_terminal',
+    description: 'Run a command in an isolated copy of the project with no network access. Allowed: ls, cat, pwd, echo, head, tail, wc, grep, find (without -exec/-delete), plus node, npm (test/run/start/ls) and python3 when the host has the bubblewrap sandbox. No pipes, redirection or absolute paths. Returns stdout, stderr and the exit code.',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'The command to execute, e.g. "npm test" or "node build.js"' },
       },
+      required: ['command'],
+    },
+  },
+  {
+    name: 'install_package',
+    description: 'Install an npm package.',
+    parameters: {
+      type: 'object',
+      properties: {
+        packageName: { type: 'string', description: 'Name of the npm package' },
+        version: { type: 'string', description: 'Version of the package' },
+        isDev: { type: 'boolean', description: 'Whether dev dependency' },
+      },
+      required: ['packageName', 'version', 'isDev'],
+    },
+  },
+  {
+    name: 'get_project_settings',
+    description: 'Read the project settings shown in the editor tabs: SEO (title, description, keywords, ogImage, favicon, robots), deployment config, integrations (with their ids and whether an API key is set) and installed packages.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'update_seo_settings',
+    description: 'Update the project SEO settings. Pass null for fields that should stay unchanged.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: ['string', 'null'], description: 'Page title (about 50-60 characters)' },
+        description: { type: ['string', 'null'], description: 'Meta description (about 150-160 characters)' },
+        keywords: { type: ['string', 'null'], description: 'Comma-separated keywords' },
+        ogImage: { type: ['string', 'null'], description: 'URL or project path of the Open Graph image' },
+        favicon: { type: ['string', 'null'], description: 'URL or project path of the favicon' },
+        robots: { type: ['string', 'null'], enum: ['index, follow', 'noindex, follow', 'index, nofollow', 'noindex, nofollow', null], description: 'Robots directive' },
+      },
+      required: ['title', 'description', 'keywords', 'ogImage', 'favicon', 'robots'],
+    },
+  },
+  {
+    name: 'update_deployment_config',
+    description: 'Update the project deployment settings. Pass null for fields that should stay unchanged.',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: ['string', 'null'], enum: ['static', 'autoscale', 'vm', 'scheduled', null], description: 'static for plain HTML/CSS/JS sites, autoscale or vm for servers, scheduled for cron jobs' },
+        cpu: { type: ['number', 'null'], description: 'vCPUs' },
+        ram: { type: ['number', 'null'], description: 'RAM in GB' },
+        vmSize: { type: ['string', 'null'], enum: ['shared', 'dedicated-1', 'dedicated-2', 'dedicated-4', null], description: 'Machine size for the vm type' },
+      },
+      required: ['type', 'cpu', 'ram', 'vmSize'],
+    },
+  },
+  {
+    name: 'update_integration',
+    description: 'Enable or disable an integration (e.g. "analytics", "stripe", "sentry") or set its API key. Use get_project_settings for the available ids.',
+    parameters: {
+      type: 'object',
+      properties: {
+        integrationId: { type: 'string', description: 'Id of the integration' },
+        enabled: { type: ['boolean', 'null'], description: 'Whether the integration is enabled, or null to leave it' },
+        apiKey: { type: ['string', 'null'], description: 'API key the user provided, otherwise null' },
+      },
+      required: ['integrationId', 'enabled', 'apiKey'],
+    },
+  },
+  {
+    name: 'deploy_preview',
+    description: 'Publish the current project files to a temporary preview URL (separate from the production deployment) that expires automatically. Use it when the user asks for a link to try the site; include the returned URL in your answer.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'read_file',
+    description: 'Read the contents of a file.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: 'ID or path of the file to read' },
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'list_files',
+    description: 'List all files and folders in the project, including nested ones.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'search_files',
+    description: 'Search the contents of all project files (case-insensitive) and return matching lines with their paths and line numbers. Use it to find where something is defined or handled before reading whole files.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to look for, or a regular expression when regex is true' },
+        regex: { type: ['boolean', 'null'], description: 'Treat the query as a regular expression' },
+        path: { type: ['string', 'null'], description: 'Only search inside this folder, e.g. "/js"' },
+      },
+      required: ['query', 'regex', 'path'],
+    },
+  },
+  {
+    name: 'ask_user',
+    description: 'Ask the user a clarifying question and pause the run until they answer. Only use it when the request is ambiguous in a way that changes what you build (e.g. "add payments" without a provider); otherwise make a sensible assumption. Offer options when there are a few clear choices.',
+    parameters: {
+      type: 'object',
+      properties: {
+        question: { type: 'string', description: 'One short, specific question' },
+        options: { type: ['array', 'null'], items: { type: 'string' }, description: 'Up to 6 answers the user can pick from, or null for a free-text answer' },
+      },
+      required: ['question', 'options'],
     },
   },
 ];
 
+const settingsToolSections: Record<string, SettingsSection> = {
+  update_seo_settings: 'seoSettings',
+  update_deployment_config: 'deploymentConfig',
+  update_integration: 'integrations',
+};
+
+interface ToolContext {
+  projectId?: string;
+  origin?: string;
+  settings: ProjectSettings;
+  canAskUser?: boolean;
+}
+
 async function executeToolCall(
   toolName: string,
   args: Record<string, unknown>,
-  currentFiles: FileItem[]
+  currentFiles: FileItem[],
+  provider: LLMProvider,
+  context: ToolContext
 ): Promise<{ success: boolean; result: unknown; error?: string }> {
+  const { settings } = context;
   try {
     switch (toolName) {
       case 'generate_image': {
-        const response = await openaiImageClient.images.generate({
-          model: 'gpt-image-1',
+        const imageData = await provider.generateImage({
           prompt: args.prompt as string,
-          size: (args.size as '1024x1024' | '512x512' | '256x256') || '1024x1024',
+          size: (args.size as string) || '1024x1024',
         });
-        const imageData = response.data;
-        if (!imageData || imageData.length === 0) {
+        if (!imageData) {
           return { success: false, result: null, error: 'No image data returned' };
         }
         return {
           success: true,
           result: {
             action: 'generate_image',
+            fileId: createItemId(),
             filename: args.filename,
-            base64Data: imageData[0]?.b64_json ?? '',
+            base64Data: imageData,
             message: `Generated image: ${args.filename}`,
           },
         };
       }
       case 'create_file': {
         const filename = args.filename as string;
-        const path = (args.path as string) || '/';
+        const filePath = joinPath((args.path as string) || '/', filename);
+        const file: FileItem = {
+          id: createItemId(),
+          name: filename,
+          type: 'file',
+          path: filePath,
+          content: args.content as string,
+        };
+        insertItem(currentFiles, file);
         return {
           success: true,
           result: {
             action: 'create_file',
-            file: {
-              id: Date.now().toString() + Math.random().toString(36).slice(2),
-              name: filename,
-              type: 'file',
-              path: path === '/' ? `/${filename}` : `${path}/${filename}`,
-              content: args.content as string,
-            },
-            message: `Created file: ${filename}`,
+            file,
+            message: `Created file: ${filePath}`,
           },
         };
       }
+      case 'create_folder': {
+        const folderPath = normalizePath(args.path as string);
+        if (folderPath === '/') {
+          return { success: false, result: null, error: 'Cannot create the project root' };
+        }
+        ensureFolder(currentFiles, folderPath);
+        return {
+          success: true,
+          result: { action: 'create_folder', path: folderPath, message: `Created folder: ${folderPath}` },
+        };
+      }
       case 'edit_file': {
-        const targetFile = currentFiles.find(f => f.id === args.fileId);
-        if (!targetFile) {
-          return { success: false, result: null, error: `File with ID ${args.fileId} not found` };
+        const targetFile = resolveItem(currentFiles, args.file as string);
+        if (!targetFile || targetFile.type !== 'file') {
+          return { success: false, result: null, error: `File ${args.file} not found` };
         }
         return {
           success: true,
           result: {
             action: 'edit_file',
-            fileId: args.fileId,
+            fileId: targetFile.id,
             newContent: args.newContent,
-            newFilename: args.newFilename || undefined,
-            message: `Edited file${args.newFilename ? ` and renamed to ${args.newFilename}` : ''}`,
+            message: `Edited file: ${targetFile.path}`,
+          },
+        };
+      }
+      case 'patch_file': {
+        const targetFile = resolveItem(currentFiles, args.file as string);
+        if (!targetFile || targetFile.type !== 'file') {
+          return { success: false, result: null, error: `File ${args.file} not found` };
+        }
+        const edits = (args.edits as SearchReplaceEdit[]) || [];
+        if (edits.length === 0) {
+          return { success: false, result: null, error: 'patch_file requires at least one edit' };
+        }
+        const patched = applySearchReplace(targetFile.content || '', edits);
+        if (!patched.ok) {
+          return { success: false, result: null, error: `Patch to ${targetFile.path} failed: ${patched.error}. No changes were applied.` };
+        }
+        return {
+          success: true,
+          result: {
+            action: 'patch_file',
+            fileId: targetFile.id,
+            edits,
+            message: `Patched ${targetFile.path} (${patched.appliedHunks} edit${patched.appliedHunks === 1 ? '' : 's'})`,
           },
         };
       }
       case 'delete_file': {
+        const target = resolveItem(currentFiles, args.file as string);
+        if (!target) {
+          return { success: false, result: null, error: `File or folder ${args.file} not found` };
+        }
         return {
           success: true,
           result: {
             action: 'delete_file',
-            fileId: args.fileId,
-            message: `Deleted file: ${args.filename}`,
+            fileId: target.id,
+            message: `Deleted ${target.type}: ${target.path}`,
           },
         };
       }
-      case 'run_terminal': {
-        const command = args.command as string;
-        const mockOutputs: Record<string, string> = {
-          'npm run build': '✓ Compiled successfully\n✓ Build completed',
-          'npm run dev': '✓ Ready on http://localhost:3000',
-          'npm test': '✓ All tests passed',
+      case 'move_file': {
+        const target = resolveItem(currentFiles, args.file as string);
+        if (!target) {
+          return { success: false, result: null, error: `File or folder ${args.file} not found` };
+        }
+        const newPath = joinPath(args.destination as string, target.name);
+        relocateItem(currentFiles, target.id, newPath);
+        return {
+          success: true,
+          result: {
+            action: 'move_file',
+            fileId: target.id,
+            newPath,
+            message: `Moved ${target.path} to ${newPath}`,
+          },
         };
-        let output = mockOutputs[command];
-        if (!output) {
-          output = command.startsWith('npm install') ? 'added 1 package in 2.1s' : `Executed: ${command}`;
+      }
+      case 'rename_file': {
+        const target = resolveItem(currentFiles, args.file as string);
+        if (!target) {
+          return { success: false, result: null, error: `File or folder ${args.file} not found` };
+        }
+        const newName = args.newName as string;
+        if (!newName || newName.includes('/')) {
+          return { success: false, result: null, error: 'newName must be a plain name without slashes' };
         }
+        const newPath = joinPath(parentPath(target.path), newName);
+        relocateItem(currentFiles, target.id, newPath);
         return {
           success: true,
-          result: { action: 'run_terminal', command, output, message: `Executed: ${command}` },
+          result: {
+            action: 'rename_file',
+            fileId: target.id,
+            newPath,
+            message: `Renamed ${target.path} to ${newPath}`,
+          },
         };
       }
+      case 'run_terminal': {
+        const command = args.command as string;
+        try {
+          const run = await runSandboxedCommand(command, currentFiles);
+          const output = [`$ ${command}`, run.stdout, run.stderr, run.timedOut ? '[timed out]' : `[exit code ${run.exitCode}]`]
+            .filter(Boolean)
+            .join('\n');
+          return {
+            success: true,
+            result: {
+              action: 'run_terminal',
+              command,
+              output,
+              stdout: run.stdout,
+              stderr: run.stderr,
+              exitCode: run.exitCode,
+              timedOut: run.timedOut,
+              truncated: run.truncated,
+              durationMs: run.durationMs,
+              message: run.exitCode === 0 ? `Executed: ${command}` : `Command failed: ${command} (${run.timedOut ? 'timed out' : `exit code ${run.exitCode}`})`,
+            },
+          };
+        } catch (error) {
+          if (error instanceof SandboxError) {
+            return { success: false, result: null, error: error.message };
+          }
+          throw error;
+        }
+      }
       case 'install_package': {
         return {
           success: true,
@@ -312,40 +622,120 @@ async function executeToolCall(
           },
         };
       }
+      case 'get_project_settings': {
+        return {
+          success: true,
+          result: {
+            action: 'get_project_settings',
+            settings: settingsForAgent(settings),
+            message: 'Read project settings',
+          },
+        };
+      }
+      case 'update_seo_settings':
+      case 'update_deployment_config':
+      case 'update_integration': {
+        const section = settingsToolSections[toolName];
+        const updated = updateProjectSettings(settings, section, settingsUpdateFields(args));
+        return {
+          success: true,
+          result: {
+            action: 'update_project_settings',
+            section,
+            value: settingsForAgent(updated.settings)[section],
+            changes: updated.changes.map(maskSettingChange),
+            message: updated.changes.length > 0
+              ? `Updated ${updated.changes.map(c => c.field).join(', ')}`
+              : 'Settings already up to date',
+          },
+        };
+      }
+      case 'deploy_preview': {
+        if (!context.projectId) {
+          return { success: false, result: null, error: 'Preview deployments need a saved project' };
+        }
+        if (!flattenFiles(currentFiles).some(f => f.type === 'file' && f.name.endsWith('.html'))) {
+          return { success: false, result: null, error: 'There is no HTML page to deploy yet' };
+        }
+        const preview = await createPreviewDeployment(context.projectId, currentFiles);
+        const url = `${context.origin ?? ''}${preview.url}`;
+        return {
+          success: true,
+          result: {
+            action: 'deploy_preview',
+            deploymentId: preview.id,
+            url,
+            expiresAt: preview.expiresAt.toISOString(),
+            message: `Preview deployed: ${url}`,
+          },
+        };
+      }
       case 'read_file': {
-        const file = currentFiles.find(f => f.id === args.fileId);
-        if (file) {
+        const file = resolveItem(currentFiles, args.file as string);
+        if (file && file.type === 'file') {
           return {
             success: true,
             result: {
               action: 'read_file',
-              fileId: args.fileId,
+              fileId: file.id,
+              path: file.path,
               filename: file.name,
               content: file.content,
-              message: `Read file: ${file.name}`,
+              message: `Read file: ${file.path}`,
             },
           };
         }
-        return { success: false, result: null, error: 'File not found' };
+        return { success: false, result: null, error: `File ${args.file} not found` };
       }
       case 'list_files': {
+        const allItems = flattenFiles(currentFiles);
         return {
           success: true,
           result: {
             action: 'list_files',
-            files: currentFiles.map(f => ({ id: f.id, name: f.name, path: f.path, type: f.type })),
-            message: `Listed ${currentFiles.length} files`,
+            files: allItems.map(f => ({ id: f.id, name: f.name, path: f.path, type: f.type })),
+            message: `Listed ${allItems.length} files and folders`,
           },
         };
       }
-      case 'complete_step': {
+      case 'search_files': {
+        const search = searchFiles(currentFiles, args.query as string, {
+          regex: args.regex === true,
+          path: typeof args.path === 'string' ? args.path : undefined,
+        });
+        return {
+          success: true,
+          result: {
+            action: 'search_files',
+            query: args.query,
+            ...search,
+            message: `Found ${search.matches.length}${search.truncated ? '+' : ''} matches in ${search.filesSearched} files`,
+          },
+        };
+      }
+      case 'ask_user': {
+        const parsed = clarifyingQuestionSchema.safeParse(args);
+        if (!parsed.success) {
+          return { success: false, result: null, error: z.prettifyError(parsed.error) };
+        }
+        // Not a failure: without a stored execution (or after too many questions) the model just carries on.
+        if (!context.canAskUser) {
+          return {
+            success: true,
+            result: {
+              action: 'ask_user',
+              asked: false,
+              message: 'The user cannot be asked right now. Make a sensible assumption, mention it when you hand the step to the reviewer and continue.',
+            },
+          };
+        }
         return {
           success: true,
           result: {
-            action: 'complete_step',
-            stepId: args.stepId,
-            outcome: args.outcome,
-            message: `Step ${args.stepId} marked complete`,
+            action: 'ask_user',
+            asked: true,
+            ...parsed.data,
+            message: `Asked the user: ${parsed.data.question}`,
           },
         };
       }
@@ -357,47 +747,84 @@ async function executeToolCall(
   }
 }
 
+function applyFileChange(files: FileItem[], result: Record<string, unknown>): FileItem[] {
+  switch (result.action) {
+    case 'create_file':
+      return insertItem(files, result.file as FileItem);
+    case 'create_folder':
+      return ensureFolder(files, result.path as string);
+    case 'edit_file':
+      return updateItem(files, result.fileId as string, { content: result.newContent as string });
+    case 'patch_file': {
+      const file = resolveItem(files, result.fileId as string);
+      if (!file) return files;
+      const patched = applySearchReplace(file.content || '', result.edits as SearchReplaceEdit[]);
+      return patched.ok ? updateItem(files, file.id, { content: patched.content }) : files;
+    }
+    case 'delete_file':
+      return removeItem(files, result.fileId as string);
+    case 'move_file':
+    case 'rename_file':
+      return relocateItem(files, result.fileId as string, result.newPath as string);
+    case 'generate_image':
+      return insertItem(files, {
+        id: result.fileId as string,
+        name: result.filename as string,
+        type: 'file',
+        path: `/images/${result.filename as string}`,
+        content: `data:image/png;base64,${result.base64Data}`,
+      });
+    default:
+      return files;
+  }
+}
+
+function settingsUpdateFields(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== null));
+}
+
+// Tool results only carry the masked section, so the real settings are rebuilt from the update the model sent.
+function applySettingsChange(settings: ProjectSettings, call: Pick<ToolResult, 'args' | 'result'>): ProjectSettings {
+  const result = call.result as Record<string, unknown>;
+  switch (result.action) {
+    case 'update_project_settings':
+      return updateProjectSettings(settings, result.section as SettingsSection, settingsUpdateFields(call.args ?? {})).settings;
+    case 'install_package':
+      return { ...settings, packages: [...settings.packages, result.package as ProjectSettings['packages'][number]] };
+    default:
+      return settings;
+  }
+}
+
+function replaySettings(settings: ProjectSettings, toolResults: ToolResult[]): ProjectSettings {
+  return toolResults
+    .filter(call => call.success && call.result)
+    .reduce((current, call) => applySettingsChange(current, call), settings);
+}
+
 function processToolResults(
   toolCalls: ToolResult[],
   currentFiles: FileItem[]
-): { files: FileItem[]; packages: { name: string; version: string; installed: boolean }[]; terminalOutput: string[]; generatedImages: { filename: string; base64Data: string }[] } {
-  const updatedFiles = [...currentFiles];
+): {
+  files: FileItem[];
+  packages: { name: string; version: string; installed: boolean }[];
+  terminalOutput: string[];
+  generatedImages: { filename: string; base64Data: string }[];
+  settingsChanges: SettingChange[];
+  previewDeployments: { url: string; expiresAt: string }[];
+} {
+  let updatedFiles = currentFiles;
   const packages: { name: string; version: string; installed: boolean }[] = [];
   const terminalOutput: string[] = [];
   const generatedImages: { filename: string; base64Data: string }[] = [];
-  const createdFilePaths = new Set<string>();
+  const settingsChanges: SettingChange[] = [];
+  const previewDeployments: { url: string; expiresAt: string }[] = [];
 
   for (const call of toolCalls) {
     const result = call.result as Record<string, unknown>;
     if (!result || !call.success) continue;
 
     switch (result.action) {
-      case 'create_file': {
-        const file = result.file as FileItem;
-        const filePath = file.path;
-        if (updatedFiles.some(f => f.path === filePath) || createdFilePaths.has(filePath)) break;
-        createdFilePaths.add(filePath);
-        updatedFiles.push(file);
-        break;
-      }
-      case 'edit_file': {
-        const fileId = result.fileId as string;
-        const idx = updatedFiles.findIndex(f => f.id === fileId);
-        if (idx !== -1) {
-          updatedFiles[idx] = {
-            ...updatedFiles[idx],
-            content: result.newContent as string,
-            name: (result.newFilename as string) || updatedFiles[idx].name,
-          };
-        }
-        break;
-      }
-      case 'delete_file': {
-        const delId = result.fileId as string;
-        const delIdx = updatedFiles.findIndex(f => f.id === delId);
-        if (delIdx !== -1) updatedFiles.splice(delIdx, 1);
-        break;
-      }
       case 'install_package': {
         const pkg = result.package as { name: string; version: string; installed: boolean };
         packages.push(pkg);
@@ -408,39 +835,55 @@ function processToolResults(
         break;
       }
       case 'generate_image': {
-        const imagePath = `/images/${result.filename as string}`;
-        if (updatedFiles.some(f => f.path === imagePath)) break;
         generatedImages.push({
           filename: result.filename as string,
           base64Data: result.base64Data as string,
         });
-        updatedFiles.push({
-          id: Date.now().toString() + Math.random().toString(36).slice(2),
-          name: result.filename as string,
-          type: 'file',
-          path: imagePath,
-          content: `data:image/png;base64,${result.base64Data}`,
-        });
         break;
       }
+      case 'update_project_settings': {
+        settingsChanges.push(...result.changes as SettingChange[]);
+        break;
+      }
+      case 'deploy_preview': {
+        previewDeployments.push({ url: result.url as string, expiresAt: result.expiresAt as string });
+        break;
+      }
+    }
+
+    try {
+      updatedFiles = applyFileChange(updatedFiles, result);
+    } catch (error) {
+      if (!(error instanceof FileTreeError)) throw error;
     }
   }
 
-  return { files: updatedFiles, packages, terminalOutput, generatedImages };
+  return { files: updatedFiles, packages, terminalOutput, generatedImages, settingsChanges, previewDeployments };
 }
 
 async function generateStrategicPlan(
   goal: string,
   currentFiles: FileItem[],
   memories: string[],
-  learnings: string[]
-): Promise<ExecutionPlan> {
+  learnings: string[],
+  instructions: ProjectInstructions,
+  clarifications: Clarification[],
+  canAskUser: boolean,
+  provider: LLMProvider,
+  transcript: TranscriptEntry[]
+): Promise<ExecutionPlan | ClarifyingQuestion> {
   const planningPrompt = `You are a strategic planning AI. Analyze this goal and create a detailed execution plan.
 
 GOAL: ${goal}
 
+PROJECT INSTRUCTIONS (set by the user; every step must follow them):
+${instructions.content || 'None'}
+${clarifications.length > 0 ? `
+ANSWERS FROM THE USER:
+${clarifications.map(c => `Q: ${c.question}\nA: ${c.answer}`).join('\n\n')}
+` : ''}
 CURRENT PROJECT FILES:
-${currentFiles.length > 0 ? currentFiles.map(f => `- ${f.path} (${f.type})`).join('\n') : 'No files yet'}
+${currentFiles.length > 0 ? flattenFiles(currentFiles).map(f => `- ${f.path} (${f.type})`).join('\n') : 'No files yet'}
 
 PAST MEMORIES:
 ${memories.length > 0 ? memories.join('\n') : 'None'}
@@ -470,20 +913,27 @@ Create a strategic execution plan. Respond with valid JSON:
   "estimatedTools": 5
 }
 
-Available tools: generate_image, create_file, edit_file, delete_file, run_terminal, install_package, read_file, list_files, complete_step
-
+Available tools: generate_image, create_file, create_folder, edit_file, patch_file, delete_file, move_file, rename_file, run_terminal, install_package, get_project_settings, update_seo_settings, update_deployment_config, update_integration, deploy_preview, read_file, list_files, search_files, ask_user
+${canAskUser ? `
+If the goal is ambiguous in a way that would change the plan (for example "add payments" without saying which provider) and the answers above do not settle it, respond instead with:
+{ "clarification": { "question": "one short question", "options": ["choice 1", "choice 2"] } }
+Use "options": null for a free-text answer. Do not ask about details you can reasonably decide yourself.
+` : ''}
 Break complex goals into 3-10 ordered steps. Add proactive enhancements. Respond ONLY with JSON.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: planningPrompt }],
-      response_format: { type: 'json_object' },
+    const plan = await runPlannerRole({
+      provider,
+      instructions: planningPrompt,
+      goal,
       temperature: 0.7,
-    });
+      transcript,
+    }) as ExecutionPlan & { clarification?: unknown };
 
-    const planText = response.choices[0]?.message?.content || '{}';
-    const plan = JSON.parse(planText) as ExecutionPlan;
+    if (canAskUser && plan.clarification) {
+      const question = clarifyingQuestionSchema.safeParse(plan.clarification);
+      if (question.success) return question.data;
+    }
     
     if (!plan.steps || plan.steps.length === 0) {
       return createDefaultPlan(goal);
@@ -524,32 +974,105 @@ function createDefaultPlan(goal: string): ExecutionPlan {
   };
 }
 
-function evaluateStep(step: PlanStep): { success: boolean; score: number; issues: string[] } {
+function isFailedCommand(result: ToolResult): boolean {
+  const output = result.result as Record<string, unknown> | null;
+  return result.tool === 'run_terminal' && !!output && output.exitCode !== 0;
+}
+
+const MAX_PARALLEL_STEPS = 3;
+
+function dependencyState(step: PlanStep, steps: PlanStep[]): 'ready' | 'waiting' | 'blocked' {
+  let waiting = false;
+  for (const depId of step.dependencies) {
+    const dependency = steps.find(s => s.id === depId);
+    if (!dependency || dependency.status === 'failed' || dependency.status === 'skipped') return 'blocked';
+    if (dependency.status !== 'completed') waiting = true;
+  }
+  return waiting ? 'waiting' : 'ready';
+}
+
+const MAX_REPORTED_VERIFICATION_ISSUES = 20;
+
+// The reviewer's verdict decides the step; failed tool calls and automated checks are reported alongside it,
+// and verification errors still fail a step the reviewer approved.
+function evaluateStep(
+  step: PlanStep,
+  review: StepReview | null,
+  verification: VerificationIssue[] = []
+): { success: boolean; score: number; issues: string[] } {
   if (step.toolResults.length === 0) {
     return { success: false, score: 0, issues: ['No tool executions for this step'] };
   }
 
-  const successCount = step.toolResults.filter(r => r.success).length;
-  const failCount = step.toolResults.filter(r => !r.success).length;
-  const score = Math.round((successCount / step.toolResults.length) * 100);
+  const successCount = step.toolResults.filter(r => r.success && !isFailedCommand(r)).length;
+  const verificationErrors = verification.filter(issue => issue.severity === 'error').length;
+  const toolScore = (successCount / step.toolResults.length) * 100;
+  const score = Math.max(0, Math.round((review ? review.score : toolScore) - verificationErrors * 20));
   
-  const issues: string[] = [];
+  const issues: string[] = review
+    ? review.issues.map(issue => `Reviewer: ${issue}`)
+    : ['The reviewer did not submit a verdict for this step'];
   for (const result of step.toolResults) {
     if (!result.success) {
       const errorResult = result.result as Record<string, unknown>;
       issues.push(`${result.tool} failed: ${errorResult?.error || 'Unknown error'}`);
+    } else if (isFailedCommand(result)) {
+      const run = result.result as { command: string; exitCode: number | null; stderr: string; timedOut: boolean };
+      const reason = run.timedOut ? 'timed out' : `exited with code ${run.exitCode}`;
+      issues.push(`run_terminal failed: \`${run.command}\` ${reason}${run.stderr ? `: ${run.stderr.slice(-500)}` : ''}`);
     }
   }
 
-  const success = failCount === 0 && successCount > 0;
+  const ordered = [...verification].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  issues.push(...ordered.slice(0, MAX_REPORTED_VERIFICATION_ISSUES).map(formatIssue));
+  if (ordered.length > MAX_REPORTED_VERIFICATION_ISSUES) {
+    issues.push(`...and ${ordered.length - MAX_REPORTED_VERIFICATION_ISSUES} more verification issues`);
+  }
+
+  const success = Boolean(review?.approved) && successCount > 0 && verificationErrors === 0;
   
   return { success, score, issues };
 }
 
+const MAX_HEALING_ITERATIONS = 3;
+const MAX_PREVIEW_PROBLEMS = 15;
+const PREVIEW_RENDER_TIMEOUT_MS = 20_000;
+const PREVIEW_CHECK_UNAVAILABLE = 'Page scripts only run inside the bubblewrap sandbox (bwrap), which is not installed on this server, so runtime errors could not be checked';
+
+interface HealingIteration {
+  id: string;
+  kind: 'self_heal';
+  description: string;
+  status: 'completed' | 'failed';
+  problems: string[];
+  toolResultsCount: number;
+  toolResults: ToolResult[];
+  startedAt: string;
+  finishedAt: string;
+}
+
+// A render without page scripts cannot find runtime errors, so it reports that it could not check instead of none.
+async function collectPreviewProblems(files: FileItem[]): Promise<{ scriptsExecuted: boolean; problems: string[] }> {
+  const html = buildPreviewHTML(flattenFiles(files).filter(f => f.type === 'file'));
+  const result = await renderPreview(files, '/index.html', { html, timeoutMs: PREVIEW_RENDER_TIMEOUT_MS });
+  if (!result.scriptsExecuted) return { scriptsExecuted: false, problems: [] };
+  // Remote scripts (CDN frameworks) are never loaded on the server, so their failures are not the project's.
+  const externalScripts = result.externalResources.some(url => /\.m?js(\?|$)/.test(url));
+  const labels = { exception: 'Uncaught error', console: 'console.error', resource: 'Failed to load' };
+  const problems = [...new Set(result.problems
+    .filter(problem => problem.kind !== 'resource' || !result.externalResources.some(url => problem.message.includes(url)))
+    .map(problem => `${labels[problem.kind]}: ${problem.message}${problem.kind === 'exception' && externalScripts
+      ? ' (external scripts are not loaded in this check; ignore this if it comes from a missing library)'
+      : ''}`))];
+  return { scriptsExecuted: true, problems: problems.slice(0, MAX_PREVIEW_PROBLEMS) };
+}
+
 async function evaluateOverallOutcome(
   plan: ExecutionPlan,
   currentFiles: FileItem[],
-  originalGoal: string
+  originalGoal: string,
+  instructions: ProjectInstructions,
+  provider: LLMProvider
 ): Promise<{ goalAchieved: boolean; completeness: number; gaps: string[]; suggestions: string[] }> {
   const completedSteps = plan.steps.filter(s => s.status === 'completed').length;
   const totalSteps = plan.steps.length;
@@ -563,8 +1086,11 @@ PLAN EXECUTED:
 ${plan.steps.map(s => `- ${s.id}: ${s.description} [${s.status}]`).join('\n')}
 
 FILES CREATED:
-${currentFiles.map(f => `- ${f.path}`).join('\n')}
+${flattenFiles(currentFiles).filter(f => f.type === 'file').map(f => `- ${f.path}`).join('\n')}
 
+PROJECT INSTRUCTIONS (set by the user):
+${instructions.content || 'None'}
+${instructions.content ? '\nList any way the result ignores these instructions as a gap.\n' : ''}
 Respond with JSON:
 {
   "goalAchieved": true/false,
@@ -574,15 +1100,11 @@ Respond with JSON:
 }`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: evaluationPrompt }],
-      response_format: { type: 'json_object' },
+    return await provider.completeJSON({
+      purpose: 'evaluate',
+      prompt: evaluationPrompt,
       temperature: 0.3,
-    });
-
-    const evalText = response.choices[0]?.message?.content || '{}';
-    return JSON.parse(evalText);
+    }) as { goalAchieved: boolean; completeness: number; gaps: string[]; suggestions: string[] };
   } catch {
     return {
       goalAchieved: completedSteps === totalSteps,
@@ -593,89 +1115,144 @@ Respond with JSON:
   }
 }
 
-async function retrieveRelevantMemories(projectId: string): Promise<string[]> {
+async function createExecutionRecord(
+  projectId: string,
+  userGoal: string,
+  plan: ExecutionPlan | null,
+  instructionsVersion: number,
+  runId: string,
+  finalOutcome: string = 'in_progress'
+): Promise<string | null> {
   try {
-    const memories = await db.query.agentMemory.findMany({
-      where: eq(agentMemory.projectId, projectId),
-      orderBy: [desc(agentMemory.lastAccessedAt)],
-      limit: 10,
-    });
-    return memories.map(m => `[${m.memoryType}] ${m.content}`);
+    const result = await db.insert(agentExecutions).values({
+      projectId,
+      userGoal,
+      plan: plan as unknown as Record<string, unknown>,
+      executionSteps: [],
+      evaluationResults: null,
+      finalOutcome,
+      instructionsVersion,
+      runId,
+    }).returning({ id: agentExecutions.id });
+    return result[0]?.id || null;
   } catch {
-    return [];
+    return null;
   }
 }
 
-async function retrieveRelevantLearnings(projectId: string): Promise<string[]> {
-  try {
-    const learnings = await db.query.agentLearnings.findMany({
-      where: eq(agentLearnings.projectId, projectId),
-      orderBy: [desc(agentLearnings.createdAt)],
-      limit: 5,
-    });
-    return learnings.map(l => `[${l.learningType}] ${l.pattern}: ${l.insight}`);
-  } catch {
-    return [];
-  }
+function summarizeSteps(plan: ExecutionPlan) {
+  return plan.steps.map(s => ({
+    id: s.id,
+    description: s.description,
+    status: s.status,
+    retryCount: s.retryCount,
+    toolResultsCount: s.toolResults.length,
+    evaluation: s.evaluation,
+    startedAt: s.startedAt,
+    finishedAt: s.finishedAt,
+  }));
 }
 
-async function storeMemory(
-  projectId: string,
-  memoryType: string,
-  content: string,
-  metadata?: Record<string, unknown>
-) {
+function resetStep(step: PlanStep) {
+  step.status = 'pending';
+  step.retryCount = 0;
+  step.toolResults = [];
+  step.evaluation = undefined;
+  step.attempts = [];
+  step.startedAt = undefined;
+  step.finishedAt = undefined;
+}
+
+// Every run claims its execution with a fresh `runId`. Its writes only land while it still holds the claim,
+// so a run that was marked abandoned and resumed elsewhere cannot overwrite the newer run.
+function ownedExecution(executionId: string, runId: string) {
+  return and(eq(agentExecutions.id, executionId), eq(agentExecutions.runId, runId));
+}
+
+async function saveCheckpoint(executionId: string, runId: string, plan: ExecutionPlan, checkpoint: ExecutionCheckpoint) {
   try {
-    await db.insert(agentMemory).values({
-      projectId,
-      memoryType,
-      content,
-      metadata,
-      importance: 'medium',
-    });
+    await db.update(agentExecutions)
+      .set({
+        plan: plan as unknown as Record<string, unknown>,
+        executionSteps: summarizeSteps(plan),
+        checkpoint,
+        totalIterations: checkpoint.totalIterations.toString(),
+        lastHeartbeatAt: new Date(),
+      })
+      .where(ownedExecution(executionId, runId));
   } catch (error) {
-    console.error('Failed to store memory:', error);
+    console.error('Failed to checkpoint execution:', error);
   }
 }
 
-async function storeLearning(
-  projectId: string,
-  executionId: string | null,
-  learningType: string,
-  pattern: string,
-  insight: string
+async function saveExecutionSnapshot(
+  executionId: string,
+  runId: string,
+  snapshot: { snapshot: ProjectSnapshot } | { resultSnapshot: ProjectSnapshot }
 ) {
   try {
-    await db.insert(agentLearnings).values({
-      projectId,
-      executionId,
-      learningType,
-      pattern,
-      insight,
-    });
+    await db.update(agentExecutions)
+      .set(snapshot)
+      .where(ownedExecution(executionId, runId));
   } catch (error) {
-    console.error('Failed to store learning:', error);
+    console.error('Failed to store execution snapshot:', error);
   }
 }
 
-async function createExecutionRecord(projectId: string, userGoal: string, plan: ExecutionPlan): Promise<string | null> {
+async function appendRoleTranscripts(executionId: string, runId: string, transcripts: RoleTranscript[]) {
+  if (transcripts.length === 0) return;
+  await db.update(agentExecutions)
+    .set({ roleTranscripts: sql`coalesce(${agentExecutions.roleTranscripts}, '[]'::jsonb) || ${JSON.stringify(transcripts)}::jsonb` })
+    .where(ownedExecution(executionId, runId));
+}
+
+async function saveProposedChanges(executionId: string, runId: string, proposal: ProposedChanges) {
+  await db.update(agentExecutions)
+    .set({ proposedChanges: proposal, reviewedAt: null })
+    .where(ownedExecution(executionId, runId));
+}
+
+// Returns null once the run no longer holds a running execution.
+async function touchExecution(runId: string) {
+  const [execution] = await db.update(agentExecutions)
+    .set({ lastHeartbeatAt: new Date() })
+    .where(and(eq(agentExecutions.runId, runId), eq(agentExecutions.finalOutcome, 'in_progress')))
+    .returning({ cancelRequestedAt: agentExecutions.cancelRequestedAt });
+  return execution ?? null;
+}
+
+// A run that lost its execution stops the same way as a cancelled one.
+async function isCancellationRequested(runId: string): Promise<boolean> {
   try {
-    const result = await db.insert(agentExecutions).values({
-      projectId,
-      userGoal,
-      plan: plan as unknown as Record<string, unknown>,
-      executionSteps: [],
-      evaluationResults: null,
-      finalOutcome: 'in_progress',
-    }).returning({ id: agentExecutions.id });
-    return result[0]?.id || null;
+    const execution = await touchExecution(runId);
+    return !execution || Boolean(execution.cancelRequestedAt);
   } catch {
-    return null;
+    return false;
   }
 }
 
+async function awaitUserAnswer(executionId: string, runId: string, question: PendingQuestion) {
+  await db.update(agentExecutions)
+    .set({ finalOutcome: 'awaiting_input', pendingQuestion: question, lastHeartbeatAt: new Date() })
+    .where(ownedExecution(executionId, runId));
+}
+
+function awaitingInputResponse(projectId: string | undefined, executionId: string, question: PendingQuestion, usage: unknown) {
+  const options = question.options.map(option => `- ${option}`).join('\n');
+  return {
+    success: false,
+    awaitingInput: true,
+    message: `**The agent needs more information before it continues:**\n\n${question.question}${options ? `\n\n${options}` : ''}`,
+    projectId,
+    executionId,
+    question: { question: question.question, options: question.options, stepId: question.stepId },
+    usage,
+  };
+}
+
 async function updateExecutionRecord(
   executionId: string,
+  runId: string,
   updates: {
     plan?: unknown;
     executionSteps?: unknown;
@@ -683,6 +1260,7 @@ async function updateExecutionRecord(
     finalOutcome?: string;
     lessonsLearned?: unknown;
     totalIterations?: string;
+    instructionsVersion?: number;
   }
 ) {
   try {
@@ -691,129 +1269,330 @@ async function updateExecutionRecord(
         ...updates,
         completedAt: updates.finalOutcome && updates.finalOutcome !== 'in_progress' ? new Date() : undefined,
       })
-      .where(eq(agentExecutions.id, executionId));
+      // Only a run that is still running may finish the execution.
+      .where(updates.finalOutcome
+        ? and(ownedExecution(executionId, runId), eq(agentExecutions.finalOutcome, 'in_progress'))
+        : ownedExecution(executionId, runId));
   } catch (error) {
     console.error('Failed to update execution record:', error);
   }
 }
 
-function compactContext(messages: ChatMessage[], maxMessages: number = 20): ChatMessage[] {
-  if (messages.length <= maxMessages) return messages;
+type PackageEntry = { name: string; version: string; installed: boolean };
 
-  const recentMessages = messages.slice(-Math.floor(maxMessages * 0.7));
-  const olderMessages = messages.slice(0, messages.length - recentMessages.length);
+async function persistAgentFiles(
+  projectId: string,
+  baseUpdatedAt: Date,
+  baseFiles: FileItem[],
+  agentFiles: FileItem[],
+  newPackages: PackageEntry[],
+  settingsUpdate: Partial<Pick<ProjectSettings, SettingsSection>>
+): Promise<{ files: FileItem[]; updatedAt: Date; conflicts: string[]; snapshot: ProjectSnapshot }> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, projectId),
+      columns: { ...snapshotColumns, updatedAt: true },
+    });
+    if (!project) throw new Error('Project not found');
 
-  const summaryPoints: string[] = [];
-  let currentTopic = '';
-  
-  for (const msg of olderMessages) {
-    if (msg.role === 'user') {
-      currentTopic = msg.content.slice(0, 100);
-    } else if (msg.role === 'assistant' && currentTopic) {
-      summaryPoints.push(`- "${currentTopic}..." → ${msg.content.slice(0, 150)}...`);
-      currentTopic = '';
+    let files = agentFiles;
+    let conflicts: string[] = [];
+    if (project.updatedAt.getTime() !== baseUpdatedAt.getTime()) {
+      ({ files, conflicts } = mergeFileTrees(baseFiles, agentFiles, (project.files as FileItem[] | null) || []));
     }
-  }
 
-  const summary: ChatMessage = {
-    role: 'system',
-    content: `[CONTEXT SUMMARY]\n${summaryPoints.slice(-10).join('\n')}\n[END SUMMARY]`,
-  };
+    const updatedAt = new Date();
+    const updateData: Record<string, unknown> = { files, ...settingsUpdate, updatedAt };
+    if (newPackages.length > 0) {
+      const existingPackages = (project.packages as PackageEntry[] | null) || [];
+      updateData.packages = [...existingPackages, ...newPackages];
+    }
 
-  return [summary, ...recentMessages];
-}
+    const saved = await db.update(projects)
+      .set(updateData)
+      .where(and(
+        eq(projects.id, projectId),
+        sql`date_trunc('milliseconds', ${projects.updatedAt}) = ${project.updatedAt.toISOString()}::timestamp`
+      ))
+      .returning({ id: projects.id });
 
-export async function POST(request: NextRequest) {
-  const session = await getSession();
-  
-  if (!session) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (saved.length > 0) {
+      return { files, updatedAt, conflicts, snapshot: takeSnapshot({ ...project, ...updateData }) };
+    }
   }
 
-  try {
-    const body = await request.json();
-    const { prompt, projectId, files = [], conversationHistory = [] } = body;
+  throw new Error('Project was modified concurrently while saving agent changes');
+}
 
-    if (!prompt) {
-      return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
-    }
+async function loadProjectConversation(projectId: string, prompt: string) {
+  const [project, messages] = await Promise.all([
+    db.query.projects.findFirst({ where: eq(projects.id, projectId), columns: { contextSummary: true } }),
+    db.select({ role: chatMessages.role, content: chatMessages.content, createdAt: chatMessages.createdAt })
+      .from(chatMessages)
+      .where(eq(chatMessages.projectId, projectId))
+      .orderBy(asc(chatMessages.createdAt)),
+  ]);
+
+  const history: ConversationMessage[] = messages.map(m => ({
+    role: m.role === 'assistant' ? 'assistant' : 'user',
+    content: m.content,
+    createdAt: m.createdAt.toISOString(),
+  }));
+  // The editor stores the prompt before starting the run; it is sent separately, not as history.
+  const last = history[history.length - 1];
+  if (last?.role === 'user' && last.content === prompt) history.pop();
+
+  return { history, summary: (project?.contextSummary as ConversationSummary | null) ?? null };
+}
 
-    const memories = projectId ? await retrieveRelevantMemories(projectId) : [];
-    const learnings = projectId ? await retrieveRelevantLearnings(projectId) : [];
+interface AgentRunInput {
+  prompt: string;
+  userId: string;
+  projectId?: string;
+  files: FileItem[];
+  baseUpdatedAt?: Date;
+  conversationHistory: ConversationMessage[];
+  resume?: { executionId: string; plan: ExecutionPlan; checkpoint: ExecutionCheckpoint };
+  approved?: { executionId: string; plan: ExecutionPlan };
+  // A run that paused for a question while planning; it plans again with the answer.
+  clarified?: { executionId: string };
+  clarifications: Clarification[];
+  // Claims the execution for this request; see ownedExecution.
+  runId: string;
+  selfHeal?: boolean;
+  reviewChanges?: boolean;
+  origin?: string;
+}
 
-    const plan = await generateStrategicPlan(prompt, files, memories, learnings);
-    
-    const executionId = projectId ? await createExecutionRecord(projectId, prompt, plan) : null;
-
-    const executionState: ExecutionState = {
-      planGenerated: true,
-      currentStepIndex: 0,
-      completedSteps: [],
-      failedSteps: [],
-      skippedSteps: [],
-      evaluationsPassed: 0,
-      evaluationsFailed: 0,
-      overallSuccess: false,
-    };
+const approvedPlanSchema = z.object({
+  goal: z.string().min(1),
+  analysis: z.string().default(''),
+  complexity: z.enum(['simple', 'moderate', 'complex']),
+  steps: z.array(z.object({
+    id: z.string().min(1),
+    description: z.string().min(1),
+    action: z.string().default(''),
+    toolsNeeded: z.array(z.string()).default([]),
+    dependencies: z.array(z.string()).default([]),
+    expectedOutcome: z.string().default(''),
+  })).min(1).max(20).refine(steps => new Set(steps.map(step => step.id)).size === steps.length, 'Step ids must be unique'),
+  proactiveEnhancements: z.array(z.string()).default([]),
+  estimatedTools: z.number().default(0),
+});
 
-    const compactedHistory = compactContext(conversationHistory);
-    
-    const fullFilesContext = files.length > 0 
-      ? `\n\n## CURRENT PROJECT FILES:\n${files.map((f: FileItem) => {
-          if (f.type === 'folder') return `📁 ${f.path}`;
-          const isImage = f.content?.startsWith('data:image');
-          return `📄 ${f.path} (id: ${f.id})${isImage ? ' [IMAGE]' : ''}:\n\`\`\`\n${isImage ? '[base64 image data]' : (f.content || '[empty]')}\n\`\`\``;
-        }).join('\n\n')}`
-      : '\n\n## CURRENT PROJECT FILES: None yet';
-
-    const memoryContext = memories.length > 0 ? `\n\n## MEMORIES:\n${memories.join('\n')}` : '';
-    const learningsContext = learnings.length > 0 ? `\n\n## LEARNINGS:\n${learnings.join('\n')}` : '';
-
-    let currentFiles = [...files];
-    const allToolResults: ToolResult[] = [];
-    let finalResponse = '';
-    let totalIterations = 0;
-    const maxRetries = 2;
-    const maxIterationsPerStep = 5;
-
-    const responsesTools = tools.map(t => {
-      const fn = t.type === 'function' ? t.function : null;
-      if (!fn) return null;
-      return {
-        type: 'function' as const,
-        name: fn.name,
-        description: fn.description,
-        parameters: { ...fn.parameters, additionalProperties: false },
-        strict: true,
-      };
-    }).filter(Boolean) as Array<{type: 'function'; name: string; description?: string; parameters: Record<string, unknown>; strict: boolean}>;
+function toApprovedPlan(data: z.infer<typeof approvedPlanSchema>): ExecutionPlan {
+  const seen = new Set<string>();
+  const steps: PlanStep[] = data.steps.map(step => {
+    const dependencies = step.dependencies.filter(depId => seen.has(depId));
+    seen.add(step.id);
+    return { ...step, dependencies, status: 'pending', retryCount: 0, toolResults: [] };
+  });
+  return { ...data, steps };
+}
 
-    for (let stepIndex = 0; stepIndex < plan.steps.length; stepIndex++) {
-      const currentStep = plan.steps[stepIndex];
-      executionState.currentStepIndex = stepIndex;
-      currentStep.status = 'in_progress';
+async function proposeExecutionPlan(input: AgentRunInput, projectId: string) {
+  const usage = createUsageLedger({ userId: input.userId, projectId });
+  const provider = meterProvider(getLLMProvider(), usage.record);
+  const retrieval = await createRetrievalContext(provider, input.prompt, flattenFiles(input.files).map(f => f.path));
+  const memories = await retrieveRelevantMemories(projectId, retrieval);
+  const learnings = await retrieveRelevantLearnings(projectId, retrieval);
+  const instructions = await loadProjectInstructions(projectId);
+  // The user reviews the plan anyway, so proposals do not stop to ask questions.
+  const transcript: TranscriptEntry[] = [];
+  const planned = await generateStrategicPlan(input.prompt, input.files, memories, learnings, instructions, [], false, provider, transcript);
+  const plan = 'question' in planned ? createDefaultPlan(input.prompt) : planned;
+
+  const executionId = await createExecutionRecord(projectId, input.prompt, plan, instructions.version, input.runId, 'awaiting_approval');
+  if (!executionId) throw new Error('Failed to store the proposed plan');
+  await usage.attachExecution(executionId);
+  await appendRoleTranscripts(executionId, input.runId, [{ stepId: null, attempt: 1, entries: transcript }]);
+
+  return { success: true, awaitingApproval: true, executionId, plan, usage: usage.report() };
+}
 
-      const dependenciesMet = currentStep.dependencies.every(depId => 
-        plan.steps.find(s => s.id === depId)?.status === 'completed'
-      );
+// Steps, sandbox runs, self-healing and the final evaluation can each outlast STALE_EXECUTION_MS, so the
+// heartbeat is kept up on a timer for the whole run rather than only between steps.
+async function runAutonomousExecution(input: AgentRunInput, emit: (event: AgentEvent) => void) {
+  // Runs without a project have no execution record.
+  const heartbeat = input.projectId ? setInterval(() => {
+    touchExecution(input.runId).catch(error => console.error('Failed to update execution heartbeat:', error));
+  }, HEARTBEAT_INTERVAL_MS) : undefined;
+  try {
+    return await executeAutonomousRun(input, emit);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
 
-      if (!dependenciesMet) {
-        currentStep.status = 'skipped';
-        executionState.skippedSteps.push(currentStep.id);
-        continue;
-      }
+async function executeAutonomousRun(input: AgentRunInput, emit: (event: AgentEvent) => void) {
+  const { prompt, projectId, conversationHistory, resume, approved, clarified, clarifications, runId } = input;
+  const files = resume ? resume.checkpoint.baseFiles : input.files;
+  const baseUpdatedAt = resume
+    ? (resume.checkpoint.baseUpdatedAt ? new Date(resume.checkpoint.baseUpdatedAt) : undefined)
+    : input.baseUpdatedAt;
+
+  const usage = createUsageLedger({
+    userId: input.userId,
+    projectId,
+    executionId: resume?.executionId ?? approved?.executionId ?? clarified?.executionId,
+  });
+  const provider = meterProvider(getLLMProvider(), usage.record);
+  const retrieval = projectId
+    ? await createRetrievalContext(provider, prompt, flattenFiles(resume ? resume.checkpoint.files : files).map(f => f.path))
+    : null;
+  const memories = projectId && retrieval ? await retrieveRelevantMemories(projectId, retrieval) : [];
+  const learnings = projectId && retrieval ? await retrieveRelevantLearnings(projectId, retrieval) : [];
+  const instructions: ProjectInstructions = projectId
+    ? await loadProjectInstructions(projectId)
+    : { version: 0, content: '', createdAt: null };
+
+  const canAskUser = Boolean(projectId) && clarifications.length < MAX_CLARIFICATIONS;
+  // Transcripts are appended to the execution record at each checkpoint.
+  let roleTranscripts: RoleTranscript[] = [];
+  const plannerTranscript: TranscriptEntry[] = [];
+  const planned = resume?.plan ?? approved?.plan
+    ?? await generateStrategicPlan(prompt, files, memories, learnings, instructions, clarifications, canAskUser, provider, plannerTranscript);
+  if (plannerTranscript.length > 0) roleTranscripts.push({ stepId: null, attempt: 1, entries: plannerTranscript });
+  const flushTranscripts = async (executionId: string | null) => {
+    if (executionId) await appendRoleTranscripts(executionId, runId, roleTranscripts);
+    roleTranscripts = [];
+  };
+  if ('question' in planned) {
+    const executionId = clarified?.executionId
+      ?? (projectId ? await createExecutionRecord(projectId, prompt, null, instructions.version, runId, 'awaiting_input') : null);
+    if (!executionId) throw new Error('Failed to store the clarifying question');
+    await usage.attachExecution(executionId);
+    await flushTranscripts(executionId);
+    const question: PendingQuestion = { ...planned, stepId: null, askedAt: new Date().toISOString() };
+    await awaitUserAnswer(executionId, runId, question);
+    return awaitingInputResponse(projectId, executionId, question, usage.report());
+  }
+  const plan = planned;
+  if (resume) {
+    for (const step of plan.steps) {
+      if (step.status === 'in_progress' || step.status === 'pending') resetStep(step);
+    }
+  }
+  emit({ type: 'plan_generated', plan });
+  
+  const executionId = resume?.executionId ?? approved?.executionId ?? clarified?.executionId
+    ?? (projectId ? await createExecutionRecord(projectId, prompt, plan, instructions.version, runId) : null);
+  if (executionId) {
+    await usage.attachExecution(executionId);
+    if (resume || approved || clarified) await updateExecutionRecord(executionId, runId, { instructionsVersion: instructions.version });
+    emit({ type: 'execution_started', executionId, resumed: Boolean(resume) });
+  }
 
-      let stepCompleted = false;
-      let stepIterations = 0;
-      const stepAttemptHistory: Array<{attempt: number; results: ToolResult[]; success: boolean}> = [];
+  const executionState: ExecutionState = resume ? resume.checkpoint.executionState : {
+    planGenerated: true,
+    currentStepIndex: 0,
+    completedSteps: [],
+    failedSteps: [],
+    skippedSteps: [],
+    evaluationsPassed: 0,
+    evaluationsFailed: 0,
+    overallSuccess: false,
+  };
 
-      while (!stepCompleted && stepIterations < maxIterationsPerStep && currentStep.retryCount <= maxRetries) {
-        stepIterations++;
-        totalIterations++;
+  const budget = contextBudgetFor(provider);
+  const conversation = projectId
+    ? await loadProjectConversation(projectId, prompt)
+    : { history: conversationHistory, summary: null };
+  const compaction = await compactConversation(conversation.history, conversation.summary, provider, budget.historyTokens);
+  if (projectId && compaction.summaryChanged) {
+    await db.update(projects)
+      .set({ contextSummary: compaction.summary })
+      .where(eq(projects.id, projectId));
+  }
+  const summaryContext = compaction.summary ? `\n\n## EARLIER CONVERSATION (SUMMARY):\n${compaction.summary.summary}` : '';
+
+  const fileContext = buildFileContext(
+    files,
+    [prompt, plan.goal, ...plan.steps.map(step => step.description)].join('\n'),
+    budget.fileTokens
+  );
+  const fullFilesContext = files.length > 0 
+    ? `\n\n## CURRENT PROJECT FILES:\n${fileContext.text}`
+    : '\n\n## CURRENT PROJECT FILES: None yet';
+
+  const initialProject = projectId
+    ? await db.query.projects.findFirst({ where: eq(projects.id, projectId), columns: snapshotColumns })
+    : null;
+  const initialSettings = resolveProjectSettings(initialProject);
+  // A resumed run keeps the snapshot taken when it first started.
+  if (executionId && initialProject && !resume) {
+    await saveExecutionSnapshot(executionId, runId, { snapshot: takeSnapshot(initialProject) });
+  }
 
-        currentStep.toolResults = [];
+  const memoryContext = memories.length > 0 ? `\n\n## MEMORIES:\n${memories.join('\n')}` : '';
+  const learningsContext = learnings.length > 0 ? `\n\n## LEARNINGS:\n${learnings.join('\n')}` : '';
+  const instructionsContext = instructionsPromptSection(instructions);
+  const clarificationsContext = clarificationsPromptSection(clarifications);
+
+  let currentFiles = resume ? resume.checkpoint.files : [...files];
+  const allToolResults: ToolResult[] = resume ? resume.checkpoint.toolResults : [];
+  let finalResponse = resume ? resume.checkpoint.finalResponse : '';
+  let totalIterations = resume ? resume.checkpoint.totalIterations : 0;
+  const maxRetries = 2;
+  const maxIterationsPerStep = 5;
+  let cancelled = false;
+  let question: PendingQuestion | null = null;
+
+  const checkpoint = (): ExecutionCheckpoint => ({
+    files: currentFiles,
+    baseFiles: files,
+    baseUpdatedAt: baseUpdatedAt ? baseUpdatedAt.toISOString() : null,
+    executionState,
+    toolResults: allToolResults,
+    finalResponse,
+    totalIterations,
+  });
+
+  if (executionId && !resume) await saveCheckpoint(executionId, runId, plan, checkpoint());
+  await flushTranscripts(executionId);
+
+  const initialStepSettings = () => replaySettings(initialSettings, allToolResults);
+
+  const runStep = async (
+    currentStep: PlanStep,
+    stepIndex: number,
+    startFiles: FileItem[],
+    live: boolean
+  ): Promise<{ cancelled: boolean; files: FileItem[]; question?: PendingQuestion }> => {
+    let stepFiles = startFiles;
+    let stepSettings = initialStepSettings();
+    currentStep.status = 'in_progress';
+    currentStep.startedAt = new Date().toISOString();
+    currentStep.attempts = [];
+
+    let stepCompleted = false;
+    let stepIterations = 0;
+    const stepAttemptHistory: Array<{attempt: number; results: ToolResult[]; success: boolean}> = [];
+
+    while (!stepCompleted && stepIterations < maxIterationsPerStep && currentStep.retryCount <= maxRetries) {
+      if (stepIterations > 0 && executionId && await isCancellationRequested(runId)) {
+        return { cancelled: true, files: startFiles };
+      }
+      stepIterations++;
+      totalIterations++;
 
-        const stepExecutionPrompt = `You are hgland Agent executing a strategic plan.
+      // Every attempt starts over from the step's starting files; a failed attempt's edits are dropped.
+      if (live && stepFiles !== startFiles) {
+        emit({ type: 'file_changed', stepId: currentStep.id, tool: 'retry', files: startFiles });
+      }
+      stepFiles = startFiles;
+      stepSettings = initialStepSettings();
+      currentStep.toolResults = [];
+      const attemptStartedAt = new Date().toISOString();
+      emit({
+        type: 'step_started',
+        stepId: currentStep.id,
+        stepIndex,
+        attempt: stepIterations,
+        description: currentStep.description,
+      });
+
+      const stepExecutionPrompt = `You are hgland Agent executing a strategic plan.
 
 ## CURRENT STEP TO EXECUTE
 Step ${stepIndex + 1} of ${plan.steps.length}:
@@ -830,203 +1609,499 @@ Proactive Enhancements: ${plan.proactiveEnhancements.join(', ')}
 
 ## PROJECT STATE
 ${fullFilesContext}
+${instructionsContext}
+${clarificationsContext}
 ${memoryContext}
 ${learningsContext}
+${summaryContext}
 
 ## PREVIOUS STEPS COMPLETED
-${plan.steps.slice(0, stepIndex).filter(s => s.status === 'completed').map(s => `✓ ${s.description}`).join('\n') || 'None yet'}
-
+${plan.steps.filter(s => s.status === 'completed').map(s => `✓ ${s.description}`).join('\n') || 'None yet'}
+${currentStep.retryCount > 0 && currentStep.evaluation ? `
+## PREVIOUS ATTEMPT FAILED (attempt ${currentStep.retryCount + 1})
+Fix these problems (reviewer findings, tool failures and automated checks on the files this step changed):
+${currentStep.evaluation.issues.map(issue => `- ${issue}`).join('\n')}
+` : ''}
 ## INSTRUCTIONS
 1. Execute ONLY the current step using the required tools
 2. Create complete, production-ready code with Tailwind CSS
-3. When step is complete, call complete_step with the stepId and outcome
-4. If you encounter an error, try a different approach
+3. Use patch_file for changes to existing files; only use edit_file to rewrite small files
+4. When the step is done, call transfer_to_reviewer with a summary of what you did; the reviewer may send it back with feedback
+5. If you encounter an error, try a different approach
+6. Other independent steps may run at the same time, so only touch the files this step needs
+7. If the request is ambiguous in a way that changes what you build, call ask_user instead of guessing; the step restarts once the user answers
 
 Execute step "${currentStep.id}" now.`;
 
-        const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-          { role: 'system', content: stepExecutionPrompt },
-          ...compactedHistory.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content })),
-          { role: 'user', content: `Execute step: ${currentStep.description}` },
-        ];
-
-        const response = await openai.responses.create({
-          model: 'gpt-5.1-codex-max',
-          instructions: stepExecutionPrompt,
-          input: messages.map(m => {
-            if (m.role === 'system') return { role: 'user' as const, content: m.content as string };
-            if (m.role === 'tool') return { role: 'user' as const, content: `Tool result: ${m.content}` };
-            return { role: m.role as 'user' | 'assistant', content: m.content as string };
-          }),
-          tools: responsesTools,
-        });
+      const messages: LLMMessage[] = [
+        ...compaction.messages.map(m => ({ role: m.role === 'assistant' ? 'assistant' as const : 'user' as const, content: m.content })),
+        { role: 'user', content: `Execute step: ${currentStep.description}` },
+      ];
+
+      let asked: ClarifyingQuestion | null = null;
+      let verified: { files: FileItem[]; issues: VerificationIssue[] } | null = null;
+      const verify = async () => {
+        if (verified?.files !== stepFiles) {
+          verified = {
+            files: stepFiles,
+            issues: await runVerifiers({ files: stepFiles, changedFiles: changedFilesBetween(startFiles, stepFiles) }),
+          };
+        }
+        return verified.issues;
+      };
+
+      const runTool = async (role: AgentRole, name: string, args: Record<string, unknown>) => {
+        const context = {
+          projectId,
+          origin: input.origin,
+          settings: stepSettings,
+          canAskUser: canAskUser && Boolean(executionId),
+        };
+        // The reviewer only reads; its calls are kept in the transcript, not in the step's tool results.
+        if (role !== 'coder') return executeToolCall(name, args, stepFiles, provider, context);
+
+        emit({ type: 'tool_call_started', stepId: currentStep.id, tool: name, args });
+        const result = await executeToolCall(name, args, stepFiles, provider, context);
+
+        const toolResult: ToolResult = {
+          tool: name,
+          args,
+          success: result.success,
+          result: result.success ? result.result : { error: result.error },
+          stepId: currentStep.id,
+          attempt: stepIterations,
+        };
 
-        let stepSignaledComplete = false;
-
-        for (const item of response.output) {
-          if (item.type === 'function_call') {
-            const args = JSON.parse(item.arguments);
-            const result = await executeToolCall(item.name, args, currentFiles);
-
-            const toolResult: ToolResult = {
-              tool: item.name,
-              success: result.success,
-              result: result.result,
-              stepId: currentStep.id,
-            };
-
-            currentStep.toolResults.push(toolResult);
-
-            if (result.success) {
-              const processedResult = processToolResults([toolResult], currentFiles);
-              currentFiles = processedResult.files;
-            }
-
-            if (item.name === 'complete_step' && result.success) {
-              const completeResult = result.result as Record<string, unknown>;
-              currentStep.actualOutcome = completeResult.outcome as string;
-              stepSignaledComplete = true;
-            }
-          } else if (item.type === 'message' && item.content) {
-            for (const content of item.content) {
-              if (content.type === 'output_text') {
-                finalResponse += content.text;
-              }
-            }
+        currentStep.toolResults.push(toolResult);
+        emit({ type: 'tool_call_finished', stepId: currentStep.id, toolResult });
+
+        if (result.success) {
+          const processedResult = processToolResults([toolResult], stepFiles);
+          stepFiles = processedResult.files;
+          stepSettings = applySettingsChange(stepSettings, toolResult);
+          if (live && fileMutatingTools.has(name)) {
+            emit({ type: 'file_changed', stepId: currentStep.id, tool: name, files: stepFiles });
           }
         }
 
-        if (stepSignaledComplete || currentStep.toolResults.length > 0) {
-          const evaluation = evaluateStep(currentStep);
-          currentStep.evaluation = evaluation;
+        if (name === 'ask_user' && result.success && (result.result as { asked: boolean }).asked) {
+          asked = result.result as ClarifyingQuestion;
+        }
+        return result;
+      };
 
-          stepAttemptHistory.push({
-            attempt: stepIterations,
-            results: [...currentStep.toolResults],
-            success: evaluation.success,
-          });
+      const transcript: TranscriptEntry[] = [];
+      const roles = await runStepRoles({
+        provider,
+        input: messages,
+        coderInstructions: feedback => feedback.length === 0 ? stepExecutionPrompt : `${stepExecutionPrompt}
+
+## REVIEWER FEEDBACK
+The reviewer sent the step back. Fix these problems, then hand it to the reviewer again:
+${feedback.map(item => `- ${item}`).join('\n')}`,
+        reviewBrief: async () => {
+          const failedCalls = currentStep.toolResults.filter(r => !r.success || isFailedCommand(r));
+          const verification = await verify();
+          return `## STEP UNDER REVIEW
+- ID: ${currentStep.id}
+- Description: ${currentStep.description}
+- Expected outcome: ${currentStep.expectedOutcome}
 
-          allToolResults.push(...currentStep.toolResults);
+## DIFF
+${formatFileDiff(startFiles, stepFiles)}
 
-          if (evaluation.success) {
-            currentStep.status = 'completed';
-            executionState.completedSteps.push(currentStep.id);
-            executionState.evaluationsPassed++;
+## FAILED TOOL CALLS
+${failedCalls.map(r => `- ${r.tool}: ${JSON.stringify(r.result).slice(0, 500)}`).join('\n') || 'None'}
+
+## AUTOMATED CHECKS
+${verification.map(issue => `- ${formatIssue(issue)}`).join('\n') || 'No problems found'}
+${instructionsContext}`;
+        },
+        coderTools: tools,
+        reviewerTools: tools.filter(tool => readOnlyTools.has(tool.name)),
+        runTool,
+        shouldPause: () => asked !== null,
+        transcript,
+      });
+      roleTranscripts.push({ stepId: currentStep.id, attempt: stepIterations, entries: transcript });
+
+      finalResponse += transcript
+        .filter(entry => entry.role === 'coder' && entry.kind === 'message')
+        .map(entry => String(entry.content))
+        .join('\n');
+
+      const question = asked as ClarifyingQuestion | null;
+      if (question) {
+        return {
+          cancelled: false,
+          files: startFiles,
+          question: { question: question.question, options: question.options, stepId: currentStep.id, askedAt: new Date().toISOString() },
+        };
+      }
+
+      if (roles.outcome) currentStep.actualOutcome = roles.outcome;
+
+      if (roles.review || currentStep.toolResults.length > 0) {
+        const evaluation = evaluateStep(currentStep, roles.review, await verify());
+        if (roles.error) evaluation.issues.push(`Role pipeline stopped: ${roles.error}`);
+        currentStep.evaluation = evaluation;
+
+        stepAttemptHistory.push({
+          attempt: stepIterations,
+          results: [...currentStep.toolResults],
+          success: evaluation.success,
+        });
+        currentStep.attempts.push({
+          attempt: stepIterations,
+          startedAt: attemptStartedAt,
+          finishedAt: new Date().toISOString(),
+          success: evaluation.success,
+          score: evaluation.score,
+          issues: evaluation.issues,
+        });
+
+        if (evaluation.success) {
+          currentStep.status = 'completed';
+          stepCompleted = true;
+        } else {
+          currentStep.retryCount++;
+          if (currentStep.retryCount > maxRetries) {
+            currentStep.status = 'failed';
             stepCompleted = true;
-          } else {
-            currentStep.retryCount++;
-            if (currentStep.retryCount > maxRetries) {
-              currentStep.status = 'failed';
-              executionState.failedSteps.push(currentStep.id);
-              executionState.evaluationsFailed++;
-              stepCompleted = true;
-            }
           }
         }
+
+        emit({
+          type: 'step_evaluated',
+          stepId: currentStep.id,
+          status: currentStep.status,
+          retryCount: currentStep.retryCount,
+          evaluation,
+        });
+      }
+    }
+
+    // Only the attempt that passed counts; a step that never passed leaves the files as they were.
+    const passed = stepAttemptHistory.find(h => h.success);
+    currentStep.toolResults = passed ? passed.results : [];
+    currentStep.finishedAt = new Date().toISOString();
+
+    if (!stepCompleted) {
+      currentStep.status = 'failed';
+      emit({
+        type: 'step_evaluated',
+        stepId: currentStep.id,
+        status: currentStep.status,
+        retryCount: currentStep.retryCount,
+        evaluation: currentStep.evaluation,
+      });
+    }
+
+    if (!passed && live && stepFiles !== startFiles) {
+      emit({ type: 'file_changed', stepId: currentStep.id, tool: 'retry', files: startFiles });
+    }
+    return { cancelled: false, files: passed ? stepFiles : startFiles };
+  };
+
+  const skipStep = (step: PlanStep) => {
+    step.status = 'skipped';
+    executionState.skippedSteps.push(step.id);
+    emit({ type: 'step_evaluated', stepId: step.id, status: step.status, retryCount: step.retryCount });
+  };
+
+  // Steps that lost a file conflict are rerun on their own so they see the other step's changes.
+  const isolatedSteps = new Set<string>();
+
+  while (!cancelled && !question) {
+    for (const step of plan.steps) {
+      if (step.status === 'pending' && dependencyState(step, plan.steps) === 'blocked') skipStep(step);
+    }
+
+    const ready = plan.steps.filter(step => step.status === 'pending' && dependencyState(step, plan.steps) === 'ready');
+    if (ready.length === 0) {
+      // Anything still pending waits on a dependency cycle and can never start.
+      plan.steps.filter(step => step.status === 'pending').forEach(skipStep);
+      break;
+    }
+
+    if (executionId && await isCancellationRequested(runId)) {
+      cancelled = true;
+      break;
+    }
+
+    const batch = isolatedSteps.has(ready[0].id)
+      ? [ready[0]]
+      : ready.filter(step => !isolatedSteps.has(step.id)).slice(0, MAX_PARALLEL_STEPS);
+    const snapshot = currentFiles;
+    executionState.currentStepIndex = plan.steps.indexOf(batch[0]);
+
+    const results = await Promise.all(batch.map(step =>
+      runStep(step, plan.steps.indexOf(step), snapshot, batch.length === 1)));
+
+    batch.forEach((step, i) => {
+      const result = results[i];
+      if (result.cancelled) {
+        step.status = 'pending';
+        cancelled = true;
+        return;
       }
 
-      currentStep.toolResults = stepAttemptHistory.flatMap(h => h.results);
+      // The step reruns from the start once the user has answered.
+      if (result.question) {
+        resetStep(step);
+        question ??= result.question;
+        emit({ type: 'step_evaluated', stepId: step.id, status: step.status, retryCount: step.retryCount });
+        return;
+      }
+
+      if (batch.length === 1) {
+        currentFiles = result.files;
+      } else {
+        const merged = mergeFileTrees(snapshot, result.files, currentFiles);
+        if (merged.conflicts.length > 0) {
+          resetStep(step);
+          isolatedSteps.add(step.id);
+          emit({ type: 'step_evaluated', stepId: step.id, status: step.status, retryCount: step.retryCount });
+          return;
+        }
+        currentFiles = merged.files;
+        emit({ type: 'file_changed', stepId: step.id, tool: 'merge', files: currentFiles });
+      }
 
-      if (!stepCompleted) {
-        currentStep.status = 'failed';
-        executionState.failedSteps.push(currentStep.id);
+      allToolResults.push(...step.toolResults);
+      if (step.status === 'completed') {
+        executionState.completedSteps.push(step.id);
+        executionState.evaluationsPassed++;
+      } else {
+        executionState.failedSteps.push(step.id);
         executionState.evaluationsFailed++;
       }
-    }
+    });
 
-    const overallEvaluation = await evaluateOverallOutcome(plan, currentFiles, prompt);
-    executionState.overallSuccess = overallEvaluation.goalAchieved;
+    if (executionId) await saveCheckpoint(executionId, runId, plan, checkpoint());
+    await flushTranscripts(executionId);
+  }
 
-    const processedResults = processToolResults(allToolResults, files);
+  if (question && executionId) {
+    await awaitUserAnswer(executionId, runId, question);
+    return awaitingInputResponse(projectId, executionId, question, usage.report());
+  }
 
-    if (projectId) {
-      try {
-        const updateData: Record<string, unknown> = {
-          files: processedResults.files,
-          updatedAt: new Date(),
+  if (cancelled && executionId) {
+    await updateExecutionRecord(executionId, runId, { finalOutcome: 'cancelled' });
+    const finishedSteps = plan.steps.filter(s => s.status !== 'pending').length;
+    const project = projectId
+      ? await db.query.projects.findFirst({ where: eq(projects.id, projectId), columns: { files: true } })
+      : null;
+    return {
+      success: false,
+      cancelled: true,
+      message: `Execution cancelled after ${finishedSteps} of ${plan.steps.length} steps. Work up to the last finished step was checkpointed and can be resumed.`,
+      projectId,
+      executionId,
+      updatedFiles: (project?.files as FileItem[] | null) || files,
+      usage: usage.report(),
+    };
+  }
+
+  const healingIterations: HealingIteration[] = [];
+  let remainingPreviewProblems: string[] = [];
+  let previewCheckSkipped: string | null = null;
+  if (input.selfHeal && currentFiles.length > 0) {
+    for (let iteration = 1; iteration <= MAX_HEALING_ITERATIONS + 1; iteration++) {
+      const check = await collectPreviewProblems(currentFiles);
+      if (!check.scriptsExecuted) {
+        previewCheckSkipped = PREVIEW_CHECK_UNAVAILABLE;
+        emit({ type: 'preview_checked', iteration, problems: [], skipped: previewCheckSkipped });
+        break;
+      }
+      const problems = check.problems;
+      remainingPreviewProblems = problems;
+      emit({ type: 'preview_checked', iteration, problems });
+      if (problems.length === 0 || iteration > MAX_HEALING_ITERATIONS) break;
+      if (executionId && await isCancellationRequested(runId)) break;
+
+      const stepId = `self_heal_${iteration}`;
+      const previewFiles = buildFileContext(currentFiles, problems.join('\n'), budget.fileTokens);
+      const healingPrompt = `You are hgland Agent. The plan has been executed, but rendering the project preview produced these runtime problems:
+
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+## PROJECT FILES
+${previewFiles.text}
+${instructionsContext}
+
+## INSTRUCTIONS
+1. Find the cause of each problem in the project files and fix it with the file tools
+2. Prefer patch_file for small corrections; do not rewrite working code
+3. Failed loads of external CDN scripts are usually network issues; only change them if the URL is wrong
+4. Do not add features or change the design, only fix the errors
+
+Fix the problems now.`;
+
+      const healingStartedAt = new Date().toISOString();
+      emit({ type: 'step_started', stepId, stepIndex: plan.steps.length + iteration - 1, attempt: 1, description: 'Fix runtime errors found in the preview' });
+      const response = await provider.respondWithTools({
+        instructions: healingPrompt,
+        messages: [{ role: 'user', content: healingPrompt }],
+        tools,
+      });
+      totalIterations++;
+      finalResponse += response.text;
+
+      const healingResults: ToolResult[] = [];
+      for (const call of response.toolCalls) {
+        emit({ type: 'tool_call_started', stepId, tool: call.name, args: call.arguments });
+        const result = await executeToolCall(call.name, call.arguments, currentFiles, provider, {
+          projectId,
+          origin: input.origin,
+          settings: replaySettings(initialSettings, [...allToolResults, ...healingResults]),
+        });
+        const toolResult: ToolResult = {
+          tool: call.name,
+          args: call.arguments,
+          success: result.success,
+          result: result.success ? result.result : { error: result.error },
+          stepId,
+          attempt: 1,
         };
-        
-        if (processedResults.packages.length > 0) {
-          const existingProject = await db.query.projects.findFirst({
-            where: eq(projects.id, projectId),
-            columns: { packages: true }
-          });
-          const existingPackages = (existingProject?.packages as Array<{name: string; version: string; installed: boolean}>) || [];
-          updateData.packages = [...existingPackages, ...processedResults.packages];
+        healingResults.push(toolResult);
+        emit({ type: 'tool_call_finished', stepId, toolResult });
+
+        if (result.success) {
+          currentFiles = processToolResults([toolResult], currentFiles).files;
+          if (fileMutatingTools.has(call.name)) {
+            emit({ type: 'file_changed', stepId, tool: call.name, files: currentFiles });
+          }
         }
-        
-        await db.update(projects)
-          .set(updateData)
-          .where(eq(projects.id, projectId));
+      }
+      allToolResults.push(...healingResults);
+
+      const changedFiles = healingResults.some(r => r.success && fileMutatingTools.has(r.tool));
+      healingIterations.push({
+        id: stepId,
+        kind: 'self_heal',
+        description: 'Fix runtime errors found in the preview',
+        status: changedFiles ? 'completed' : 'failed',
+        problems,
+        toolResultsCount: healingResults.length,
+        toolResults: healingResults,
+        startedAt: healingStartedAt,
+        finishedAt: new Date().toISOString(),
+      });
+      if (!changedFiles) break;
+    }
+  }
 
+  const overallEvaluation = await evaluateOverallOutcome(plan, currentFiles, prompt, instructions, provider);
+  executionState.overallSuccess = overallEvaluation.goalAchieved;
+
+  const processedResults = processToolResults(allToolResults, files);
+  const finalSettings = replaySettings(initialSettings, allToolResults);
+  const updatedSettings: Partial<Pick<ProjectSettings, SettingsSection>> = Object.fromEntries(
+    [...new Set(processedResults.settingsChanges.map(change => change.section))]
+      .map(section => [section, finalSettings[section]])
+  );
+  let savedFiles = currentFiles;
+  let projectUpdatedAt: Date | null = null;
+  let fileConflicts: string[] = [];
+  let reviewRequired = false;
+
+  if (executionId && !await touchExecution(runId)) {
+    throw new Error('This run lost its execution (it was marked abandoned or resumed by another request); its changes were not saved');
+  }
+
+  if (projectId) {
+    try {
+      if (input.reviewChanges && executionId) {
+        await saveProposedChanges(executionId, runId, {
+          baseFiles: files,
+          files: currentFiles,
+          packages: processedResults.packages,
+          settings: updatedSettings,
+          settingsChanges: processedResults.settingsChanges,
+        });
+        reviewRequired = true;
+      } else if (baseUpdatedAt) {
+        const persisted = await persistAgentFiles(
+          projectId,
+          baseUpdatedAt,
+          files,
+          currentFiles,
+          processedResults.packages,
+          updatedSettings
+        );
+        savedFiles = persisted.files;
+        projectUpdatedAt = persisted.updatedAt;
+        fileConflicts = persisted.conflicts;
+        if (executionId) await saveExecutionSnapshot(executionId, runId, { resultSnapshot: persisted.snapshot });
+      }
+
+      await storeMemory(
+        projectId,
+        'execution_summary',
+        `Goal: ${prompt}\nComplexity: ${plan.complexity}\nSteps: ${plan.steps.length}\nCompleted: ${executionState.completedSteps.length}\nFailed: ${executionState.failedSteps.length}\nSuccess: ${executionState.overallSuccess}`,
+        { 
+          plan: { goal: plan.goal, complexity: plan.complexity, stepsCount: plan.steps.length },
+          evaluation: overallEvaluation,
+          proactiveEnhancements: plan.proactiveEnhancements,
+        },
+        provider
+      );
+
+      if (plan.proactiveEnhancements.length > 0) {
         await storeMemory(
           projectId,
-          'execution_summary',
-          `Goal: ${prompt}\nComplexity: ${plan.complexity}\nSteps: ${plan.steps.length}\nCompleted: ${executionState.completedSteps.length}\nFailed: ${executionState.failedSteps.length}\nSuccess: ${executionState.overallSuccess}`,
-          { 
-            plan: { goal: plan.goal, complexity: plan.complexity, stepsCount: plan.steps.length },
-            evaluation: overallEvaluation,
-            proactiveEnhancements: plan.proactiveEnhancements,
-          }
+          'proactive_enhancement',
+          `Enhancements: ${plan.proactiveEnhancements.join(', ')}`,
+          { enhancements: plan.proactiveEnhancements },
+          provider
         );
+      }
 
-        if (plan.proactiveEnhancements.length > 0) {
-          await storeMemory(
+      if (executionId) {
+        await updateExecutionRecord(executionId, runId, {
+          plan: plan as unknown as Record<string, unknown>,
+          executionSteps: [...summarizeSteps(plan), ...healingIterations],
+          evaluationResults: overallEvaluation,
+          finalOutcome: executionState.overallSuccess ? 'completed' : 'partial',
+          totalIterations: totalIterations.toString(),
+          lessonsLearned: {
+            failedSteps: executionState.failedSteps,
+            skippedSteps: executionState.skippedSteps,
+            gaps: overallEvaluation.gaps,
+            suggestions: overallEvaluation.suggestions,
+          },
+        });
+
+        if (executionState.failedSteps.length > 0) {
+          await storeLearning(
             projectId,
-            'proactive_enhancement',
-            `Enhancements: ${plan.proactiveEnhancements.join(', ')}`,
-            { enhancements: plan.proactiveEnhancements }
+            executionId,
+            'failure_pattern',
+            `Failed steps: ${executionState.failedSteps.join(', ')}`,
+            `Steps that failed: ${plan.steps.filter(s => s.status === 'failed').map(s => s.description).join('; ')}`,
+            provider
           );
         }
 
-        if (executionId) {
-          await updateExecutionRecord(executionId, {
-            plan: plan as unknown as Record<string, unknown>,
-            executionSteps: plan.steps.map(s => ({
-              id: s.id,
-              description: s.description,
-              status: s.status,
-              retryCount: s.retryCount,
-              toolResultsCount: s.toolResults.length,
-              evaluation: s.evaluation,
-            })),
-            evaluationResults: overallEvaluation,
-            finalOutcome: executionState.overallSuccess ? 'completed' : 'partial',
-            totalIterations: totalIterations.toString(),
-            lessonsLearned: {
-              failedSteps: executionState.failedSteps,
-              skippedSteps: executionState.skippedSteps,
-              gaps: overallEvaluation.gaps,
-              suggestions: overallEvaluation.suggestions,
-            },
-          });
-
-          if (executionState.failedSteps.length > 0) {
-            await storeLearning(
-              projectId,
-              executionId,
-              'failure_pattern',
-              `Failed steps: ${executionState.failedSteps.join(', ')}`,
-              `Steps that failed: ${plan.steps.filter(s => s.status === 'failed').map(s => s.description).join('; ')}`
-            );
-          }
-
-          if (executionState.overallSuccess) {
-            await storeLearning(
-              projectId,
-              executionId,
-              'success_pattern',
-              `${plan.complexity} complexity, ${plan.steps.length} steps`,
-              `Successful execution pattern for "${prompt.slice(0, 50)}..."`
-            );
-          }
+        if (executionState.overallSuccess) {
+          await storeLearning(
+            projectId,
+            executionId,
+            'success_pattern',
+            `${plan.complexity} complexity, ${plan.steps.length} steps`,
+            `Successful execution pattern for "${prompt.slice(0, 50)}..."`,
+            provider
+          );
         }
-      } catch (persistError) {
-        console.error('Failed to persist:', persistError);
       }
+    } catch (persistError) {
+      console.error('Failed to persist:', persistError);
     }
+  }
 
-    const executionReport = `
+  const executionReport = `
 ## Execution Complete
 
 **Goal:** ${plan.goal}
@@ -1037,8 +2112,8 @@ Execute step "${currentStep.id}" now.`;
 
 ### Steps Executed:
 ${plan.steps.map((s, i) => {
-  const statusIcon = s.status === 'completed' ? '✓' : s.status === 'failed' ? '✗' : '○';
-  return `${i + 1}. ${statusIcon} ${s.description} [${s.status}]${s.retryCount > 0 ? ` (${s.retryCount} retries)` : ''}`;
+const statusIcon = s.status === 'completed' ? '✓' : s.status === 'failed' ? '✗' : '○';
+return `${i + 1}. ${statusIcon} ${s.description} [${s.status}]${s.retryCount > 0 ? ` (${s.retryCount} retries)` : ''}`;
 }).join('\n')}
 
 ### Evaluation:
@@ -1050,59 +2125,428 @@ ${overallEvaluation.suggestions.length > 0 ? `- Suggestions: ${overallEvaluation
 ### Proactive Enhancements:
 ${plan.proactiveEnhancements.length > 0 ? plan.proactiveEnhancements.map(e => `- ${e}`).join('\n') : 'None'}
 
+### Applied Context:
+- Project instructions: ${instructions.version > 0 && instructions.content ? `version ${instructions.version}` : 'none'}
+- ${memories.length} memories, ${learnings.length} learnings
+${reviewRequired ? `
+### Review:
+Nothing has been written to the project yet. Review the changed files and accept or reject them.
+` : ''}${processedResults.previewDeployments.length > 0 ? `
+### Preview:
+${processedResults.previewDeployments.map(p => `- [${p.url}](${p.url}) (expires ${new Date(p.expiresAt).toUTCString()})`).join('\n')}
+` : ''}
 ${finalResponse}
 `;
 
-    return NextResponse.json({
-      success: true,
-      type: 'fully_autonomous',
-      message: executionReport,
-      projectId,
-      executionId,
-      plan: {
-        goal: plan.goal,
-        analysis: plan.analysis,
-        complexity: plan.complexity,
-        steps: plan.steps.map(s => ({
-          id: s.id,
-          description: s.description,
-          status: s.status,
-          retryCount: s.retryCount,
-          evaluation: s.evaluation,
-        })),
-        proactiveEnhancements: plan.proactiveEnhancements,
-      },
-      execution: {
-        completedSteps: executionState.completedSteps,
-        failedSteps: executionState.failedSteps,
-        skippedSteps: executionState.skippedSteps,
-        totalIterations,
-        evaluationsPassed: executionState.evaluationsPassed,
-        evaluationsFailed: executionState.evaluationsFailed,
-      },
-      evaluation: overallEvaluation,
-      toolResults: allToolResults,
-      updatedFiles: processedResults.files,
-      newPackages: processedResults.packages,
-      terminalOutput: processedResults.terminalOutput,
-      generatedImages: processedResults.generatedImages,
-      contextCompacted: conversationHistory.length > 20,
-      agentMetrics: {
-        planComplexity: plan.complexity,
-        totalSteps: plan.steps.length,
-        completedSteps: executionState.completedSteps.length,
-        failedSteps: executionState.failedSteps.length,
-        skippedSteps: executionState.skippedSteps.length,
-        toolsExecuted: allToolResults.length,
-        successfulTools: allToolResults.filter(t => t.success).length,
-        failedTools: allToolResults.filter(t => !t.success).length,
-        totalIterations,
-        goalAchieved: overallEvaluation.goalAchieved,
-        completeness: overallEvaluation.completeness,
-        proactiveEnhancements: plan.proactiveEnhancements.length,
-      },
+  return {
+    success: true,
+    type: 'fully_autonomous',
+    message: executionReport,
+    projectId,
+    executionId,
+    plan: {
+      goal: plan.goal,
+      analysis: plan.analysis,
+      complexity: plan.complexity,
+      steps: plan.steps.map(s => ({
+        id: s.id,
+        description: s.description,
+        status: s.status,
+        retryCount: s.retryCount,
+        evaluation: s.evaluation,
+      })),
+      proactiveEnhancements: plan.proactiveEnhancements,
+    },
+    execution: {
+      completedSteps: executionState.completedSteps,
+      failedSteps: executionState.failedSteps,
+      skippedSteps: executionState.skippedSteps,
+      totalIterations,
+      evaluationsPassed: executionState.evaluationsPassed,
+      evaluationsFailed: executionState.evaluationsFailed,
+    },
+    evaluation: overallEvaluation,
+    toolResults: allToolResults,
+    updatedFiles: reviewRequired ? undefined : savedFiles,
+    reviewRequired,
+    projectUpdatedAt,
+    fileConflicts,
+    newPackages: processedResults.packages,
+    settingsChanges: processedResults.settingsChanges,
+    previewDeployments: processedResults.previewDeployments,
+    updatedSettings,
+    appliedInstructions: instructions.content ? { version: instructions.version, content: instructions.content } : null,
+    terminalOutput: processedResults.terminalOutput,
+    generatedImages: processedResults.generatedImages,
+    selfHealing: input.selfHeal ? {
+      iterations: healingIterations,
+      remainingProblems: remainingPreviewProblems,
+      skipped: previewCheckSkipped,
+    } : null,
+    contextCompacted: compaction.newlySummarized > 0 || fileContext.trimmedFiles.length + fileContext.elidedFiles.length > 0,
+    contextCompaction: {
+      summarizedMessages: compaction.newlySummarized,
+      totalSummarizedMessages: compaction.summary?.summarizedCount ?? 0,
+      keptMessages: compaction.messages.length,
+      summary: compaction.summary?.summary ?? null,
+      trimmedFiles: fileContext.trimmedFiles,
+      elidedFiles: fileContext.elidedFiles,
+    },
+    agentMetrics: {
+      planComplexity: plan.complexity,
+      totalSteps: plan.steps.length,
+      completedSteps: executionState.completedSteps.length,
+      failedSteps: executionState.failedSteps.length,
+      skippedSteps: executionState.skippedSteps.length,
+      toolsExecuted: allToolResults.length,
+      successfulTools: allToolResults.filter(t => t.success).length,
+      failedTools: allToolResults.filter(t => !t.success).length,
+      totalIterations,
+      goalAchieved: overallEvaluation.goalAchieved,
+      completeness: overallEvaluation.completeness,
+      proactiveEnhancements: plan.proactiveEnhancements.length,
+      usage: usage.report(),
+    },
+  };
+}
+
+function streamAutonomousExecution(input: AgentRunInput): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: AgentEvent) => {
+        if (cancelled) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          cancelled = true;
+        }
+      };
+
+      try {
+        const result = withContract(editResponseSchema, { mode: 'edit', ...await runAutonomousExecution(input, emit) });
+        emit({ type: 'report', result });
+      } catch (error) {
+        console.error('AI generation error:', error);
+        emit({ type: 'error', error: error instanceof Error ? error.message : 'AI generation failed' });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+function withContract<T>(schema: z.ZodType<T>, payload: unknown): T {
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    console.error('Agent response does not match its contract:', z.prettifyError(parsed.error));
+    throw new Error('The agent produced a malformed response');
+  }
+  return parsed.data;
+}
+
+async function runGenerateMode(request: Extract<AgentRequest, { mode: 'generate' }>, userId: string) {
+  const { prompt, projectId } = request;
+  let instructions = '';
+  if (projectId) {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+      columns: { files: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (((project.files as FileItem[] | null) ?? []).length > 0) {
+      return NextResponse.json({ error: 'The project already has files; use edit mode to change them' }, { status: 409 });
+    }
+
+    instructions = (await loadProjectInstructions(projectId)).content;
+  }
+
+  const usage = createUsageLedger({ userId, projectId });
+  const provider = meterProvider(getLLMProvider(), usage.record);
+  const generated = await scaffoldSite(prompt, instructions, provider);
+
+  if (projectId) {
+    const saved = await db.update(projects)
+      .set({
+        files: generated.files,
+        pages: JSON.stringify(generated.pages),
+        siteConfig: JSON.stringify(generated.siteConfig),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(projects.id, projectId),
+        or(isNull(projects.files), sql`${projects.files} = '[]'::jsonb`)
+      ))
+      .returning({ id: projects.id });
+
+    if (saved.length === 0) {
+      return NextResponse.json({ error: 'Files were added to the project while the site was being generated' }, { status: 409 });
+    }
+  }
+
+  return NextResponse.json(withContract(generateResponseSchema, {
+    success: true,
+    mode: 'generate',
+    projectId: projectId ?? null,
+    generated,
+    usage: usage.report(),
+  }));
+}
+
+async function runAskMode(request: Extract<AgentRequest, { mode: 'ask' }>, userId: string) {
+  const { prompt, projectId, conversationHistory } = request;
+  let files = request.files;
+  let instructions = '';
+  if (projectId) {
+    const project = await db.query.projects.findFirst({
+      where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+      columns: { files: true },
     });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // The editor may send its unsaved working copy; otherwise answer from the saved files.
+    if (files.length === 0) files = (project.files as FileItem[] | null) ?? [];
+    instructions = (await loadProjectInstructions(projectId)).content;
+  }
+
+  const usage = createUsageLedger({ userId, projectId });
+  const provider = meterProvider(getLLMProvider(), usage.record);
+  const settings = resolveProjectSettings(null);
+  const { answer, references } = await answerQuestion(
+    prompt,
+    files,
+    conversationHistory,
+    instructions,
+    provider,
+    tools.filter(tool => readOnlyTools.has(tool.name)),
+    (name, args) => executeToolCall(name, args, files, provider, { projectId, settings })
+  );
+
+  return NextResponse.json(withContract(askResponseSchema, {
+    success: true,
+    mode: 'ask',
+    answer,
+    references,
+    usage: usage.report(),
+  }));
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = agentRequestSchema.parse(await request.json());
+
+    if (body.mode === 'edit' && !body.prompt && !body.resumeExecutionId && !body.approveExecutionId && !body.answerExecutionId) {
+      return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
+    }
+
+    const quota = await checkQuota(session.userId);
+    if (quota.exceeded) {
+      return NextResponse.json({
+        error: `Your ${quota.exceeded} AI token quota is used up. It resets at ${quota.usage[quota.exceeded].resetsAt}.`,
+        quotaExceeded: quota.exceeded,
+        usage: quota.usage,
+      }, { status: 429 });
+    }
+
+    if (body.mode === 'generate') return await runGenerateMode(body, session.userId);
+    if (body.mode === 'ask') return await runAskMode(body, session.userId);
+
+    const {
+      prompt,
+      projectId,
+      baseUpdatedAt,
+      resumeExecutionId,
+      approveExecutionId,
+      answerExecutionId,
+      answer,
+      requirePlanApproval,
+      selfHeal,
+      reviewChanges,
+      conversationHistory,
+      stream,
+    } = body;
+
+    if ((resumeExecutionId || approveExecutionId || answerExecutionId || requirePlanApproval) && !projectId) {
+      return NextResponse.json({ error: 'projectId is required for plan approval and resuming executions' }, { status: 400 });
+    }
+
+    if (answerExecutionId && !answer) {
+      return NextResponse.json({ error: 'answer is required when answering a question' }, { status: 400 });
+    }
+
+    const approvedPlan = approveExecutionId ? toApprovedPlan(approvedPlanSchema.parse(body.approvedPlan)) : null;
+
+    const input: AgentRunInput = {
+      runId: randomUUID(),
+      prompt: prompt ?? '',
+      userId: session.userId,
+      projectId,
+      files: body.files,
+      conversationHistory,
+      selfHeal,
+      reviewChanges,
+      origin: request.nextUrl.origin,
+      clarifications: [],
+    };
+
+    if (resumeExecutionId && projectId) {
+      const project = await db.query.projects.findFirst({
+        where: and(eq(projects.id, projectId), eq(projects.userId, session.userId)),
+        columns: { id: true },
+      });
+
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+
+      await markAbandonedExecutions(projectId);
+
+      const [execution] = await db.update(agentExecutions)
+        .set({ finalOutcome: 'in_progress', cancelRequestedAt: null, completedAt: null, lastHeartbeatAt: new Date(), runId: input.runId })
+        .where(and(
+          eq(agentExecutions.id, resumeExecutionId),
+          eq(agentExecutions.projectId, projectId),
+          inArray(agentExecutions.finalOutcome, [...resumableOutcomes]),
+          isNotNull(agentExecutions.checkpoint)
+        ))
+        .returning();
+
+      if (!execution) {
+        return NextResponse.json({ error: 'Execution not found or not resumable' }, { status: 409 });
+      }
+
+      input.prompt = execution.userGoal;
+      input.clarifications = (execution.clarifications as Clarification[] | null) ?? [];
+      input.resume = {
+        executionId: execution.id,
+        plan: execution.plan as ExecutionPlan,
+        checkpoint: execution.checkpoint as ExecutionCheckpoint,
+      };
+    } else if (projectId) {
+      const project = await db.query.projects.findFirst({
+        where: and(eq(projects.id, projectId), eq(projects.userId, session.userId)),
+        columns: { files: true, updatedAt: true },
+      });
+
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+
+      if (baseUpdatedAt && new Date(baseUpdatedAt).getTime() !== project.updatedAt.getTime()) {
+        return NextResponse.json({
+          success: false,
+          conflict: true,
+          error: 'The project was changed since this editor loaded it',
+          project: { files: project.files, updatedAt: project.updatedAt },
+        }, { status: 409 });
+      }
+
+      input.files = (project.files as FileItem[] | null) || [];
+      input.baseUpdatedAt = project.updatedAt;
+    }
+
+    if (answerExecutionId && answer && projectId) {
+      const paused = await db.query.agentExecutions.findFirst({
+        where: and(
+          eq(agentExecutions.id, answerExecutionId),
+          eq(agentExecutions.projectId, projectId),
+          eq(agentExecutions.finalOutcome, 'awaiting_input')
+        ),
+        columns: { pendingQuestion: true, clarifications: true },
+      });
+
+      if (!paused?.pendingQuestion) {
+        return NextResponse.json({ error: 'This run is not waiting for an answer' }, { status: 409 });
+      }
+
+      const clarifications: Clarification[] = [
+        ...((paused.clarifications as Clarification[] | null) ?? []),
+        { ...(paused.pendingQuestion as PendingQuestion), answer, answeredAt: new Date().toISOString() },
+      ];
+      const [execution] = await db.update(agentExecutions)
+        .set({ finalOutcome: 'in_progress', pendingQuestion: null, clarifications, lastHeartbeatAt: new Date(), runId: input.runId })
+        .where(and(eq(agentExecutions.id, answerExecutionId), eq(agentExecutions.finalOutcome, 'awaiting_input')))
+        .returning();
+
+      if (!execution) {
+        return NextResponse.json({ error: 'This run is not waiting for an answer' }, { status: 409 });
+      }
+
+      input.prompt = execution.userGoal;
+      input.clarifications = clarifications;
+      if (execution.checkpoint && execution.plan) {
+        input.resume = {
+          executionId: execution.id,
+          plan: execution.plan as ExecutionPlan,
+          checkpoint: execution.checkpoint as ExecutionCheckpoint,
+        };
+      } else {
+        input.clarified = { executionId: execution.id };
+      }
+    } else if (approveExecutionId && approvedPlan && projectId) {
+      const [execution] = await db.update(agentExecutions)
+        .set({
+          plan: approvedPlan as unknown as Record<string, unknown>,
+          finalOutcome: 'in_progress',
+          startedAt: new Date(),
+          lastHeartbeatAt: new Date(),
+          runId: input.runId,
+        })
+        .where(and(
+          eq(agentExecutions.id, approveExecutionId),
+          eq(agentExecutions.projectId, projectId),
+          eq(agentExecutions.finalOutcome, 'awaiting_approval')
+        ))
+        .returning({ id: agentExecutions.id, userGoal: agentExecutions.userGoal });
+
+      if (!execution) {
+        return NextResponse.json({ error: 'Plan not found or already approved' }, { status: 409 });
+      }
+
+      input.prompt = execution.userGoal;
+      input.approved = { executionId: execution.id, plan: approvedPlan };
+    } else if (requirePlanApproval && !resumeExecutionId && projectId) {
+      return NextResponse.json(withContract(editResponseSchema, { mode: 'edit', ...await proposeExecutionPlan(input, projectId) }));
+    }
+
+    if (stream) {
+      return streamAutonomousExecution(input);
+    }
+
+    return NextResponse.json(withContract(editResponseSchema, { mode: 'edit', ...await runAutonomousExecution(input, () => {}) }));
   } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    if (error instanceof AgentModeError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
     console.error('AI generation error:', error);
     const message = error instanceof Error ? error.message : 'AI generation failed';
     return NextResponse.json({ error: message }, { status: 500 });
@@ -1,8 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { getSession } from '@/lib/auth';
 import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+const preferencesSchema = z.object({
+  autoApplyAgentChanges: z.boolean(),
+});
 
 export async function GET() {
   const session = await getSession();
@@ -16,6 +21,7 @@ export async function GET() {
     email: users.email,
     fullName: users.fullName,
     username: users.username,
+    autoApplyAgentChanges: users.autoApplyAgentChanges,
   }).from(users).where(eq(users.id, session.userId));
 
   if (!user) {
@@ -24,3 +30,25 @@ export async function GET() {
 
   return NextResponse.json({ user });
 }
+
+export async function PATCH(request: NextRequest) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const preferences = preferencesSchema.parse(await request.json());
+    const [user] = await db.update(users)
+      .set({ ...preferences, updatedAt: new Date() })
+      .where(eq(users.id, session.userId))
+      .returning({ autoApplyAgentChanges: users.autoApplyAgentChanges });
+    return NextResponse.json({ user });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update preferences' }, { status: 500 });
+  }
+}
@@ -46,7 +46,7 @@ export async function POST(request: NextRequest) {
     const finalSubdomain = subdomain || `${username}-${proj.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
 
     const existingDeployments = await db.select().from(deployments)
-      .where(eq(deployments.projectId, projectId))
+      .where(and(eq(deployments.projectId, projectId), eq(deployments.kind, 'production')))
       .orderBy(desc(deployments.createdAt))
       .limit(1);
 
@@ -112,7 +112,7 @@ export async function GET(request: NextRequest) {
     }
 
     const projectDeployments = await db.select().from(deployments)
-      .where(eq(deployments.projectId, projectId))
+      .where(and(eq(deployments.projectId, projectId), eq(deployments.kind, 'production')))
       .orderBy(desc(deployments.createdAt));
 
     return NextResponse.json({ deployments: projectDeployments });
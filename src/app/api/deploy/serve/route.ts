@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { deployments } from '@/db/schema';
 import { eq, desc } from 'drizzle-orm';
+import { isExpired } from '@/lib/preview-deployments';
 
 interface DeployedFile {
   id: string;
@@ -76,6 +77,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Site not found' }, { status: 404 });
     }
 
+    if (isExpired(deployment[0])) {
+      return NextResponse.json({ error: 'This preview link has expired' }, { status: 410 });
+    }
+
     const files = deployment[0].deployedFiles as DeployedFile[] | null;
     if (!files || !Array.isArray(files)) {
       return NextResponse.json({ error: 'No files deployed' }, { status: 404 });
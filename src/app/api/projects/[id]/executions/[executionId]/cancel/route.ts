@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentExecutions, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import { isStale } from '@/lib/agent-executions';
+import { eq, and } from 'drizzle-orm';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, executionId } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const execution = await db.query.agentExecutions.findFirst({
+    where: and(eq(agentExecutions.id, executionId), eq(agentExecutions.projectId, id)),
+    columns: { id: true, finalOutcome: true, lastHeartbeatAt: true },
+  });
+
+  if (!execution) {
+    return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+  }
+
+  const waitingOnUser = execution.finalOutcome === 'awaiting_approval' || execution.finalOutcome === 'awaiting_input';
+  if (execution.finalOutcome !== 'in_progress' && !waitingOnUser) {
+    return NextResponse.json({ error: `Execution is already ${execution.finalOutcome}` }, { status: 409 });
+  }
+
+  // Runs waiting on the user and runs that stopped sending heartbeats have no loop left to notice the request, so finish them here.
+  const now = new Date();
+  const [updated] = await db
+    .update(agentExecutions)
+    .set(waitingOnUser || isStale(execution)
+      ? { cancelRequestedAt: now, finalOutcome: 'cancelled', completedAt: now, pendingQuestion: null }
+      : { cancelRequestedAt: now })
+    .where(eq(agentExecutions.id, executionId))
+    .returning({ id: agentExecutions.id, finalOutcome: agentExecutions.finalOutcome, cancelRequestedAt: agentExecutions.cancelRequestedAt });
+
+  return NextResponse.json({ execution: updated });
+}
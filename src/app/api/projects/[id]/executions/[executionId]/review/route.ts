@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentExecutions, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import {
+  ChangeReviewError,
+  ProposedChanges,
+  applyChangesSchema,
+  applyFileDecisions,
+  listProposedFileChanges,
+} from '@/lib/change-review';
+import { snapshotColumns, takeSnapshot } from '@/lib/execution-snapshots';
+import { FileTreeError } from '@/lib/file-tree';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+async function loadReviewTarget(projectId: string, executionId: string, userId: string) {
+  const project = await db.query.projects.findFirst({
+    where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+    columns: { ...snapshotColumns, updatedAt: true },
+  });
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const execution = await db.query.agentExecutions.findFirst({
+    where: and(eq(agentExecutions.id, executionId), eq(agentExecutions.projectId, projectId)),
+    columns: { id: true, proposedChanges: true, reviewedAt: true },
+  });
+
+  if (!execution) {
+    return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+  }
+
+  if (!execution.proposedChanges) {
+    return NextResponse.json({ error: 'This run has no changes waiting for review' }, { status: 409 });
+  }
+
+  if (execution.reviewedAt) {
+    return NextResponse.json({ error: 'The changes from this run have already been reviewed' }, { status: 409 });
+  }
+
+  return { project, proposal: execution.proposedChanges as ProposedChanges };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, executionId } = await params;
+  const target = await loadReviewTarget(id, executionId, session.userId);
+  if (target instanceof NextResponse) return target;
+
+  const { project, proposal } = target;
+  return NextResponse.json({
+    review: {
+      files: listProposedFileChanges(proposal),
+      packages: proposal.packages,
+      settingsChanges: proposal.settingsChanges,
+      projectUpdatedAt: project.updatedAt,
+    },
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, executionId } = await params;
+
+  let body: z.infer<typeof applyChangesSchema>;
+  try {
+    body = applyChangesSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const target = await loadReviewTarget(id, executionId, session.userId);
+  if (target instanceof NextResponse) return target;
+
+  const { project, proposal } = target;
+  const current = takeSnapshot(project);
+
+  let files;
+  try {
+    files = applyFileDecisions(current.files, proposal, body.files);
+  } catch (error) {
+    if (error instanceof ChangeReviewError || error instanceof FileTreeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const existingPackages = new Set(current.packages.map(pkg => pkg.name));
+  const updateData = {
+    files,
+    packages: body.includeSettings
+      ? [...current.packages, ...proposal.packages.filter(pkg => !existingPackages.has(pkg.name))]
+      : current.packages,
+    ...(body.includeSettings ? proposal.settings : {}),
+  };
+  const applied = body.files.length > 0
+    || body.includeSettings && (proposal.packages.length > 0 || Object.keys(proposal.settings).length > 0);
+
+  const reviewedAt = new Date();
+  let updatedAt = project.updatedAt;
+  if (applied) {
+    updatedAt = reviewedAt;
+    const saved = await db.update(projects)
+      .set({ ...updateData, updatedAt })
+      .where(and(
+        eq(projects.id, id),
+        sql`date_trunc('milliseconds', ${projects.updatedAt}) = ${project.updatedAt.toISOString()}::timestamp`
+      ))
+      .returning({ id: projects.id });
+
+    if (saved.length === 0) {
+      return NextResponse.json({ error: 'The project changed while applying. Review the changes again.' }, { status: 409 });
+    }
+  }
+
+  // Applied changes become the run's result, so the run can still be undone afterwards.
+  await db.update(agentExecutions)
+    .set(applied
+      ? { reviewedAt, resultSnapshot: takeSnapshot({ ...project, ...updateData }) }
+      : { reviewedAt })
+    .where(and(eq(agentExecutions.id, executionId), isNull(agentExecutions.reviewedAt)));
+
+  return NextResponse.json({ applied, project: { ...project, ...(applied ? updateData : {}), updatedAt } });
+}
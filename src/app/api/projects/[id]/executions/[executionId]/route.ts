@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentExecutions, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import { StoredPlan, StoredToolResult, executionDurationMs, toolCallView } from '@/lib/agent-executions';
+import { RoleTranscript } from '@/lib/agent-roles';
+import { loadProjectInstructions } from '@/lib/project-instructions';
+import { eq, and } from 'drizzle-orm';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, executionId } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const execution = await db.query.agentExecutions.findFirst({
+    where: and(eq(agentExecutions.id, executionId), eq(agentExecutions.projectId, id)),
+    columns: { checkpoint: false, snapshot: false, resultSnapshot: false, proposedChanges: false },
+    extras: (table, { sql }) => ({
+      hasSnapshots: sql<boolean>`${table.snapshot} is not null and ${table.resultSnapshot} is not null`.as('has_snapshots'),
+      hasProposal: sql<boolean>`${table.proposedChanges} is not null`.as('has_proposal'),
+    }),
+  });
+
+  if (!execution) {
+    return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+  }
+
+  const plan = execution.plan as StoredPlan | null;
+  const instructions = execution.instructionsVersion
+    ? await loadProjectInstructions(id, execution.instructionsVersion)
+    : null;
+  const healing = ((execution.executionSteps as { kind?: string }[] | null) ?? [])
+    .filter((entry): entry is { kind: 'self_heal'; id: string; toolResults?: StoredToolResult[] } => entry.kind === 'self_heal');
+  const transcripts = (execution.roleTranscripts as RoleTranscript[] | null) ?? [];
+
+  return NextResponse.json({
+    execution: {
+      id: execution.id,
+      userGoal: execution.userGoal,
+      finalOutcome: execution.finalOutcome,
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt,
+      durationMs: executionDurationMs(execution),
+      undoneAt: execution.undoneAt,
+      undoable: execution.hasSnapshots && !execution.undoneAt,
+      reviewPending: execution.hasProposal && !execution.reviewedAt,
+      totalIterations: Number(execution.totalIterations ?? 0),
+      goal: plan?.goal ?? execution.userGoal,
+      analysis: plan?.analysis ?? '',
+      complexity: plan?.complexity ?? null,
+      proactiveEnhancements: plan?.proactiveEnhancements ?? [],
+      steps: (plan?.steps ?? []).map(step => ({
+        id: step.id,
+        description: step.description,
+        dependencies: step.dependencies,
+        status: step.status,
+        retryCount: step.retryCount,
+        evaluation: step.evaluation ?? null,
+        attempts: step.attempts ?? [],
+        startedAt: step.startedAt ?? null,
+        finishedAt: step.finishedAt ?? null,
+        toolCalls: step.toolResults.map(toolCallView),
+        transcripts: transcripts
+          .filter(transcript => transcript.stepId === step.id)
+          .map(({ attempt, entries }) => ({ attempt, entries })),
+      })),
+      planningTranscript: transcripts.filter(transcript => transcript.stepId === null).flatMap(transcript => transcript.entries),
+      healing: healing.map(({ toolResults, ...entry }) => ({ ...entry, toolCalls: (toolResults ?? []).map(toolCallView) })),
+      evaluation: execution.evaluationResults,
+      lessonsLearned: execution.lessonsLearned,
+      appliedInstructions: instructions?.content ? { version: instructions.version, content: instructions.content } : null,
+      pendingQuestion: execution.pendingQuestion,
+      clarifications: execution.clarifications ?? [],
+    },
+  });
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentExecutions, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import {
+  ProjectSnapshot,
+  applyUndo,
+  previewUndo,
+  snapshotColumns,
+  takeSnapshot,
+} from '@/lib/execution-snapshots';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+const undoSchema = z.object({
+  overwriteEdited: z.boolean().default(false),
+  baseUpdatedAt: z.string().optional(),
+});
+
+async function loadUndoTarget(projectId: string, executionId: string, userId: string) {
+  const project = await db.query.projects.findFirst({
+    where: and(eq(projects.id, projectId), eq(projects.userId, userId)),
+    columns: { ...snapshotColumns, updatedAt: true },
+  });
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const execution = await db.query.agentExecutions.findFirst({
+    where: and(eq(agentExecutions.id, executionId), eq(agentExecutions.projectId, projectId)),
+    columns: { id: true, snapshot: true, resultSnapshot: true, undoneAt: true },
+  });
+
+  if (!execution) {
+    return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+  }
+
+  if (!execution.snapshot || !execution.resultSnapshot) {
+    return NextResponse.json({ error: 'This run did not save any changes that can be undone' }, { status: 409 });
+  }
+
+  if (execution.undoneAt) {
+    return NextResponse.json({ error: 'This run has already been undone' }, { status: 409 });
+  }
+
+  return {
+    project,
+    before: execution.snapshot as ProjectSnapshot,
+    after: execution.resultSnapshot as ProjectSnapshot,
+    current: takeSnapshot(project),
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, executionId } = await params;
+  const target = await loadUndoTarget(id, executionId, session.userId);
+  if (target instanceof NextResponse) return target;
+
+  const { project, before, after, current } = target;
+  return NextResponse.json({
+    preview: {
+      ...previewUndo(before, after, current),
+      snapshotTakenAt: before.takenAt,
+      projectUpdatedAt: project.updatedAt,
+    },
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, executionId } = await params;
+
+  let body: z.infer<typeof undoSchema>;
+  try {
+    body = undoSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const target = await loadUndoTarget(id, executionId, session.userId);
+  if (target instanceof NextResponse) return target;
+
+  const { project, before, after, current } = target;
+  const changedSincePreview = body.baseUpdatedAt
+    && new Date(body.baseUpdatedAt).getTime() !== project.updatedAt.getTime();
+  if (changedSincePreview) {
+    return NextResponse.json({ error: 'The project changed after the undo preview was loaded. Review the changes again.' }, { status: 409 });
+  }
+
+  const { restored, keptEdits } = applyUndo(before, after, current, body.overwriteEdited);
+  const updatedAt = new Date();
+  const saved = await db.update(projects)
+    .set({ ...restored, updatedAt })
+    .where(and(
+      eq(projects.id, id),
+      sql`date_trunc('milliseconds', ${projects.updatedAt}) = ${project.updatedAt.toISOString()}::timestamp`
+    ))
+    .returning({ id: projects.id });
+
+  if (saved.length === 0) {
+    return NextResponse.json({ error: 'The project changed while undoing. Review the changes again.' }, { status: 409 });
+  }
+
+  await db.update(agentExecutions)
+    .set({ undoneAt: updatedAt })
+    .where(and(eq(agentExecutions.id, executionId), isNull(agentExecutions.undoneAt)));
+
+  return NextResponse.json({ project: { ...restored, updatedAt }, keptEdits });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentExecutions, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import { executionDurationMs, markAbandonedExecutions, resumableOutcomes } from '@/lib/agent-executions';
+import { eq, and, desc, sql } from 'drizzle-orm';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  await markAbandonedExecutions(id);
+
+  const rows = await db
+    .select({
+      id: agentExecutions.id,
+      userGoal: agentExecutions.userGoal,
+      finalOutcome: agentExecutions.finalOutcome,
+      startedAt: agentExecutions.startedAt,
+      completedAt: agentExecutions.completedAt,
+      lastHeartbeatAt: agentExecutions.lastHeartbeatAt,
+      undoneAt: agentExecutions.undoneAt,
+      pendingQuestion: agentExecutions.pendingQuestion,
+      executionSteps: agentExecutions.executionSteps,
+      completeness: sql<number | null>`(${agentExecutions.evaluationResults}->>'completeness')::int`,
+      hasCheckpoint: sql<boolean>`${agentExecutions.checkpoint} is not null`,
+      hasSnapshots: sql<boolean>`${agentExecutions.snapshot} is not null and ${agentExecutions.resultSnapshot} is not null`,
+      hasProposal: sql<boolean>`${agentExecutions.proposedChanges} is not null`,
+      reviewedAt: agentExecutions.reviewedAt,
+    })
+    .from(agentExecutions)
+    .where(eq(agentExecutions.projectId, id))
+    .orderBy(desc(agentExecutions.startedAt))
+    .limit(20);
+
+  const executions = rows.map(({ hasCheckpoint, hasSnapshots, hasProposal, executionSteps, ...execution }) => {
+    const steps = (executionSteps as { status: string }[] | null) ?? [];
+    return {
+      ...execution,
+      stepCount: steps.length,
+      completedSteps: steps.filter(step => step.status === 'completed').length,
+      failedSteps: steps.filter(step => step.status === 'failed').length,
+      durationMs: executionDurationMs(execution),
+      resumable: hasCheckpoint && resumableOutcomes.has(execution.finalOutcome ?? ''),
+      undoable: hasSnapshots && !execution.undoneAt,
+      reviewPending: hasProposal && !execution.reviewedAt,
+    };
+  });
+
+  return NextResponse.json({ executions });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import {
+  InstructionsConflictError,
+  instructionsUpdateSchema,
+  listInstructionVersions,
+  loadProjectInstructions,
+  saveProjectInstructions,
+} from '@/lib/project-instructions';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const [instructions, versions] = await Promise.all([loadProjectInstructions(id), listInstructionVersions(id)]);
+  return NextResponse.json({ instructions, versions });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  try {
+    const data = instructionsUpdateSchema.parse(await request.json());
+    const instructions = await saveProjectInstructions(id, data.content, data.baseVersion);
+    return NextResponse.json({ instructions });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    if (error instanceof InstructionsConflictError) {
+      return NextResponse.json({ error: error.message, instructions: await loadProjectInstructions(id) }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to save instructions' }, { status: 500 });
+  }
+}
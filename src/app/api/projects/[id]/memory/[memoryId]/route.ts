@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentMemory, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import { memoryFields } from '@/lib/agent-memory';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+
+const updateMemorySchema = z.object({
+  content: z.string().trim().min(1).max(2000).optional(),
+  category: z.string().trim().max(100).nullable().optional(),
+  pinned: z.boolean().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memoryId: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, memoryId } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  try {
+    const data = updateMemorySchema.parse(await request.json());
+
+    const updates: Partial<typeof agentMemory.$inferInsert> = {};
+    if (data.content !== undefined) {
+      updates.content = data.content;
+      updates.embedding = null;
+    }
+    if (data.category !== undefined) updates.category = data.category;
+    if (data.pinned !== undefined) updates.pinned = data.pinned;
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const [memory] = await db
+      .update(agentMemory)
+      .set(updates)
+      .where(and(eq(agentMemory.id, memoryId), eq(agentMemory.projectId, id)))
+      .returning(memoryFields);
+
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ memory });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update memory' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memoryId: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, memoryId } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const [deleted] = await db
+    .delete(agentMemory)
+    .where(and(eq(agentMemory.id, memoryId), eq(agentMemory.projectId, id)))
+    .returning({ id: agentMemory.id });
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
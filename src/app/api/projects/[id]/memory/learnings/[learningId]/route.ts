@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentLearnings, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import { learningFields } from '@/lib/agent-memory';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+
+const updateLearningSchema = z.object({
+  pattern: z.string().trim().min(1).max(2000).optional(),
+  insight: z.string().trim().min(1).max(2000).optional(),
+  pinned: z.boolean().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; learningId: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, learningId } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  try {
+    const data = updateLearningSchema.parse(await request.json());
+
+    const updates: Partial<typeof agentLearnings.$inferInsert> = {};
+    if (data.pattern !== undefined) updates.pattern = data.pattern;
+    if (data.insight !== undefined) updates.insight = data.insight;
+    if (data.pattern !== undefined || data.insight !== undefined) updates.embedding = null;
+    if (data.pinned !== undefined) updates.pinned = data.pinned;
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const [learning] = await db
+      .update(agentLearnings)
+      .set(updates)
+      .where(and(eq(agentLearnings.id, learningId), eq(agentLearnings.projectId, id)))
+      .returning(learningFields);
+
+    if (!learning) {
+      return NextResponse.json({ error: 'Learning not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ learning });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update learning' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; learningId: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, learningId } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const [deleted] = await db
+    .delete(agentLearnings)
+    .where(and(eq(agentLearnings.id, learningId), eq(agentLearnings.projectId, id)))
+    .returning({ id: agentLearnings.id });
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Learning not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
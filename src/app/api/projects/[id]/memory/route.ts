@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { agentLearnings, agentMemory, projects } from '@/db/schema';
+import { getSession } from '@/lib/auth';
+import { learningFields, learningText, memoryFields, memoryText } from '@/lib/agent-memory';
+import { rankEntries } from '@/lib/retrieval';
+import { eq, and, desc } from 'drizzle-orm';
+import { z } from 'zod';
+
+const createInstructionSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+  category: z.string().trim().max(100).optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  const memories = await db
+    .select(memoryFields)
+    .from(agentMemory)
+    .where(eq(agentMemory.projectId, id))
+    .orderBy(desc(agentMemory.createdAt));
+
+  const learnings = await db
+    .select(learningFields)
+    .from(agentLearnings)
+    .where(eq(agentLearnings.projectId, id))
+    .orderBy(desc(agentLearnings.createdAt));
+
+  const query = request.nextUrl.searchParams.get('q')?.trim();
+  if (!query) {
+    return NextResponse.json({ memories, learnings });
+  }
+
+  return NextResponse.json({
+    memories: rankEntries(query, memories.map(m => ({ item: m, text: memoryText(m) })), { limit: memories.length })
+      .map(entry => entry.item),
+    learnings: rankEntries(query, learnings.map(l => ({ item: l, text: learningText(l) })), { limit: learnings.length })
+      .map(entry => entry.item),
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)));
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  }
+
+  try {
+    const data = createInstructionSchema.parse(await request.json());
+
+    const [memory] = await db.insert(agentMemory).values({
+      projectId: id,
+      memoryType: 'user_instruction',
+      category: data.category,
+      content: data.content,
+      pinned: true,
+    }).returning(memoryFields);
+
+    return NextResponse.json({ memory });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to add instruction' }, { status: 500 });
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { projects } from '@/db/schema';
 import { getSession } from '@/lib/auth';
-import { eq, and } from 'drizzle-orm';
+import { projectSettingsPatchSchema } from '@/lib/project-settings';
+import { eq, and, sql } from 'drizzle-orm';
+import { z } from 'zod';
 
 export async function GET(
   request: NextRequest,
@@ -39,19 +41,54 @@ export async function PATCH(
   }
 
   const { id } = await params;
-  const body = await request.json();
+  const { baseUpdatedAt, ...body } = await request.json();
+
+  // File saves must name the version they were edited from, so a stale editor cannot overwrite newer work.
+  const base = typeof baseUpdatedAt === 'string' ? new Date(baseUpdatedAt) : null;
+  if (base && Number.isNaN(base.getTime())) {
+    return NextResponse.json({ error: 'baseUpdatedAt must be a timestamp' }, { status: 400 });
+  }
+  if (body.files !== undefined && !base) {
+    return NextResponse.json({ error: 'baseUpdatedAt is required when saving files' }, { status: 400 });
+  }
+
+  let settings: z.infer<typeof projectSettingsPatchSchema>;
+  try {
+    settings = projectSettingsPatchSchema.parse(body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    throw error;
+  }
 
   const [project] = await db
     .update(projects)
     .set({
       ...body,
+      ...settings,
       updatedAt: new Date(),
     })
-    .where(and(eq(projects.id, id), eq(projects.userId, session.userId)))
+    .where(and(
+      eq(projects.id, id),
+      eq(projects.userId, session.userId),
+      base ? sql`date_trunc('milliseconds', ${projects.updatedAt}) = ${base.toISOString()}::timestamp` : undefined
+    ))
     .returning();
 
   if (!project) {
-    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    const current = await db.query.projects.findFirst({
+      where: and(eq(projects.id, id), eq(projects.userId, session.userId)),
+      columns: { files: true, updatedAt: true },
+    });
+    if (!current) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      conflict: true,
+      error: 'The project was changed since this editor loaded it',
+      project: current,
+    }, { status: 409 });
   }
 
   return NextResponse.json({ project });
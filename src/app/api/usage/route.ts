@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { getUsageSummary } from '@/lib/ai-usage';
+
+export async function GET() {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const usage = await getUsageSummary(session.userId);
+    return NextResponse.json({ usage });
+  } catch (error) {
+    console.error('Failed to load AI usage:', error);
+    return NextResponse.json({ error: 'Failed to load AI usage' }, { status: 500 });
+  }
+}
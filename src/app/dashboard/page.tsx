@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Plus, FolderOpen, Sparkles, Code2, Layout, Settings, LogOut, Waves } from 'lucide-react';
+import { Plus, FolderOpen, Sparkles, Code2, Layout, Settings, LogOut, Waves, Gauge } from 'lucide-react';
 
 interface Project {
   id: string;
@@ -20,18 +20,33 @@ interface User {
   username: string;
 }
 
+interface UsagePeriod {
+  tokens: number;
+  estimatedCostUsd: number;
+  limit: number | null;
+  resetsAt: string;
+}
+
+interface UsageSummary {
+  daily: UsagePeriod;
+  monthly: UsagePeriod;
+  byModel: Record<string, { calls: number; totalTokens: number; estimatedCostUsd: number }>;
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const [userRes, projectsRes] = await Promise.all([
+        const [userRes, projectsRes, usageRes] = await Promise.all([
           fetch('/api/auth/me'),
           fetch('/api/projects'),
+          fetch('/api/usage'),
         ]);
 
         if (!userRes.ok) {
@@ -44,6 +59,10 @@ export default function DashboardPage() {
 
         setUser(userData.user);
         setProjects(projectsData.projects || []);
+        if (usageRes.ok) {
+          const usageData = await usageRes.json();
+          setUsage(usageData.usage);
+        }
       } catch {
         router.push('/auth/login');
       } finally {
@@ -164,6 +183,49 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {usage && (
+          <div className="mt-12 bg-cyan-900/30 rounded-xl p-6 border border-cyan-700/30">
+            <div className="flex items-center gap-2 mb-4">
+              <Gauge className="w-5 h-5 text-cyan-400" />
+              <h2 className="text-lg font-semibold text-white">AI Usage</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {([['Today', usage.daily], ['This month', usage.monthly]] as const).map(([label, period]) => (
+                <div key={label}>
+                  <div className="flex items-baseline justify-between text-sm">
+                    <span className="text-cyan-300/60">{label}</span>
+                    <span className="text-white">
+                      {period.tokens.toLocaleString()}
+                      {period.limit !== null && ` / ${period.limit.toLocaleString()}`} tokens
+                      <span className="text-cyan-300/60"> · ${period.estimatedCostUsd.toFixed(2)}</span>
+                    </span>
+                  </div>
+                  {period.limit !== null && (
+                    <div className="mt-2 h-2 rounded-full bg-cyan-950/60 overflow-hidden">
+                      <div
+                        className={`h-full ${period.tokens >= period.limit ? 'bg-red-500' : 'bg-gradient-to-r from-cyan-500 to-teal-500'}`}
+                        style={{ width: `${Math.min(100, (period.tokens / period.limit) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            {Object.keys(usage.byModel).length > 0 && (
+              <div className="mt-4 pt-4 border-t border-cyan-800/30 space-y-1">
+                {Object.entries(usage.byModel).map(([model, totals]) => (
+                  <div key={model} className="flex items-center justify-between text-sm">
+                    <span className="text-cyan-300/60 font-mono">{model}</span>
+                    <span className="text-cyan-300/80">
+                      {totals.calls} calls · {totals.totalTokens.toLocaleString()} tokens · ${totals.estimatedCostUsd.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-gradient-to-br from-cyan-600/20 to-teal-600/20 rounded-xl p-6 border border-cyan-500/30">
             <Sparkles className="w-8 h-8 text-cyan-400 mb-4" />
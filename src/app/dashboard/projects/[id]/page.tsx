@@ -4,10 +4,24 @@ import { useEffect, useState, use, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
+import { buildPreviewHTML } from '@/lib/preview-html';
+import { DiffHunk, applyHunks, diffLines } from '@/lib/line-diff';
+import { mergeFileTrees } from '@/lib/file-tree';
+import {
+  DeploymentConfig,
+  IntegrationItem,
+  SEOSettings,
+  SettingChange,
+  availableIntegrations,
+  defaultDeployment,
+  defaultSEO,
+  formatSettingChange,
+} from '@/lib/project-settings';
 import dynamic from 'next/dynamic';
+import type { OnMount } from '@monaco-editor/react';
 import { 
   ArrowLeft, Save, Code2, Layout, Sparkles, Globe, Play, Loader2, Send, Waves,
-  FolderPlus, FilePlus, Package, Terminal, Search, Cpu, HardDrive, Zap, Plug, Trash2, ChevronRight, ChevronDown, File, Folder, Code, Box, RefreshCw, Square, Rocket, ExternalLink
+  FolderPlus, FilePlus, Package, Terminal, Search, Cpu, HardDrive, Zap, Plug, Trash2, ChevronRight, ChevronDown, ChevronUp, Plus, Brain, Pin, Pencil, File, Folder, Code, Box, RefreshCw, Square, Rocket, ExternalLink, History, RotateCcw, Undo2, AlertTriangle, ScrollText, HelpCircle, FileDiff
 } from 'lucide-react';
 
 const MonacoEditor = dynamic(() => import('@monaco-editor/react'), { 
@@ -15,6 +29,11 @@ const MonacoEditor = dynamic(() => import('@monaco-editor/react'), {
   loading: () => <div className="w-full h-full bg-slate-950 flex items-center justify-center text-cyan-400">Loading Editor...</div>
 });
 
+const MonacoDiffEditor = dynamic(() => import('@monaco-editor/react').then(monaco => monaco.DiffEditor), {
+  ssr: false,
+  loading: () => <div className="w-full h-full bg-slate-950 flex items-center justify-center text-cyan-400">Loading Diff...</div>
+});
+
 interface FileItem {
   id: string;
   name: string;
@@ -30,22 +49,6 @@ interface PackageItem {
   installed: boolean;
 }
 
-interface SEOSettings {
-  title: string;
-  description: string;
-  keywords: string;
-  ogImage: string;
-  favicon: string;
-  robots: string;
-}
-
-interface DeploymentConfig {
-  type: 'autoscale' | 'vm' | 'static' | 'scheduled';
-  cpu?: number;
-  ram?: number;
-  vmSize?: 'shared' | 'dedicated-1' | 'dedicated-2' | 'dedicated-4';
-}
-
 interface ResourceConfig {
   ram: number;
   cpu: number;
@@ -65,13 +68,6 @@ interface ResourceConfig {
   };
 }
 
-interface IntegrationItem {
-  id: string;
-  name: string;
-  enabled: boolean;
-  apiKey?: string;
-}
-
 interface Project {
   id: string;
   name: string;
@@ -85,6 +81,7 @@ interface Project {
   resources: ResourceConfig | null;
   deploymentConfig: DeploymentConfig | null;
   integrations: IntegrationItem[] | null;
+  updatedAt: string;
 }
 
 interface ChatMessage {
@@ -92,6 +89,271 @@ interface ChatMessage {
   content: string;
 }
 
+interface AnswerReference {
+  path: string;
+  startLine: number | null;
+  endLine: number | null;
+}
+
+// Ask-mode references are stored in the chat message as links like `#file=/js/app.js:12-20`,
+// so they stay clickable after a reload.
+function formatAnswer(answer: string, references: AnswerReference[]): string {
+  if (references.length === 0) return answer;
+  const links = references.map(ref => {
+    const lines = ref.startLine ? (ref.endLine && ref.endLine !== ref.startLine ? `${ref.startLine}-${ref.endLine}` : `${ref.startLine}`) : '';
+    return `- [${ref.path}${lines ? `:${lines}` : ''}](#file=${encodeURI(ref.path)}${lines ? `:${lines}` : ''})`;
+  });
+  return `${answer}\n\n**References**\n${links.join('\n')}`;
+}
+
+function parseFileLink(href: string): AnswerReference | null {
+  const match = href.match(/^#file=([^:]+)(?::(\d+)(?:-(\d+))?)?$/);
+  if (!match) return null;
+  const startLine = match[2] ? Number(match[2]) : null;
+  return { path: decodeURI(match[1]), startLine, endLine: match[3] ? Number(match[3]) : startLine };
+}
+
+interface LivePlanStep {
+  id: string;
+  description: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
+  retryCount: number;
+  activeTool?: string;
+  evaluation?: {
+    success: boolean;
+    score: number;
+    issues: string[];
+  };
+}
+
+interface LivePlan {
+  goal: string;
+  analysis: string;
+  complexity: string;
+  steps: LivePlanStep[];
+  previewCheck?: { iteration: number; problems: string[]; skipped?: string };
+}
+
+interface AgentReport {
+  message?: string;
+  executionId?: string;
+  reviewRequired?: boolean;
+  updatedFiles?: FileItem[];
+  projectUpdatedAt?: string | null;
+  newPackages?: PackageItem[];
+  terminalOutput?: string[];
+  toolResults?: { tool: string; success: boolean; result: { message?: string } | null }[];
+  generatedImages?: { filename: string }[];
+  contextCompacted?: boolean;
+  contextCompaction?: {
+    summarizedMessages: number;
+    totalSummarizedMessages: number;
+    trimmedFiles: string[];
+    elidedFiles: string[];
+  };
+  fileConflicts?: string[];
+  settingsChanges?: SettingChange[];
+  updatedSettings?: {
+    seoSettings?: SEOSettings;
+    deploymentConfig?: DeploymentConfig;
+    integrations?: IntegrationItem[];
+  };
+  selfHealing?: {
+    iterations: { id: string; status: 'completed' | 'failed'; problems: string[] }[];
+    remainingProblems: string[];
+    skipped: string | null;
+  } | null;
+  cancelled?: boolean;
+}
+
+interface DraftPlanStep {
+  id: string;
+  description: string;
+  action: string;
+  toolsNeeded: string[];
+  dependencies: string[];
+  expectedOutcome: string;
+}
+
+interface DraftPlan {
+  executionId: string;
+  goal: string;
+  analysis: string;
+  complexity: string;
+  steps: DraftPlanStep[];
+  enhancements: { text: string; enabled: boolean }[];
+}
+
+interface MemoryEntry {
+  id: string;
+  memoryType: string;
+  category: string | null;
+  content: string;
+  importance: string | null;
+  pinned: boolean;
+  accessCount: number;
+}
+
+interface LearningEntry {
+  id: string;
+  learningType: string;
+  pattern: string;
+  insight: string;
+  importance: string | null;
+  pinned: boolean;
+  accessCount: number;
+}
+
+interface ResumableExecution {
+  id: string;
+  userGoal: string;
+  finalOutcome: 'cancelled' | 'abandoned';
+}
+
+interface PendingQuestion {
+  executionId: string;
+  question: string;
+  options: string[];
+}
+
+interface PendingReview {
+  executionId: string;
+  userGoal: string;
+}
+
+interface ExecutionSummary {
+  id: string;
+  userGoal: string;
+  finalOutcome: string | null;
+  startedAt: string;
+  durationMs: number;
+  stepCount: number;
+  completedSteps: number;
+  failedSteps: number;
+  completeness: number | null;
+  undoneAt: string | null;
+  reviewPending: boolean;
+}
+
+interface ExecutionToolCall {
+  tool: string;
+  args: unknown;
+  success: boolean;
+  result: unknown;
+  attempt: number;
+}
+
+interface RoleTranscriptEntry {
+  role: 'planner' | 'coder' | 'reviewer';
+  kind: 'message' | 'tool_call' | 'tool_result' | 'handoff';
+  name?: string;
+  content: unknown;
+}
+
+interface ExecutionDetail {
+  id: string;
+  userGoal: string;
+  finalOutcome: string | null;
+  durationMs: number;
+  goal: string;
+  analysis: string;
+  steps: {
+    id: string;
+    description: string;
+    status: string;
+    retryCount: number;
+    evaluation: { score: number; issues: string[] } | null;
+    attempts: { attempt: number; success: boolean; score: number; issues: string[] }[];
+    startedAt: string | null;
+    finishedAt: string | null;
+    toolCalls: ExecutionToolCall[];
+    transcripts: { attempt: number; entries: RoleTranscriptEntry[] }[];
+  }[];
+  planningTranscript: RoleTranscriptEntry[];
+  healing: { id: string; description: string; status: string; problems: string[]; toolCalls: ExecutionToolCall[] }[];
+  evaluation: { completeness?: number; gaps?: string[] } | null;
+  undoneAt: string | null;
+  undoable: boolean;
+  reviewPending: boolean;
+  appliedInstructions: { version: number; content: string } | null;
+  clarifications: { question: string; answer: string }[];
+}
+
+interface ProjectInstructionsVersion {
+  version: number;
+  content: string;
+  createdAt: string | null;
+}
+
+interface UndoPreview {
+  executionId: string;
+  files: { path: string; change: 'added' | 'modified' | 'deleted'; editedSince: boolean; current: string | null; restored: string | null }[];
+  removedPackages: string[];
+  settings: { section: string; editedSince: boolean }[];
+  editedSince: string[];
+  snapshotTakenAt: string;
+  projectUpdatedAt: string;
+}
+
+interface ReviewFile {
+  path: string;
+  change: 'added' | 'modified' | 'deleted';
+  before: string | null;
+  after: string | null;
+  accepted: boolean;
+  hunks: DiffHunk[];
+  acceptedHunks: number[];
+}
+
+interface ChangeReview {
+  executionId: string;
+  files: ReviewFile[];
+  packages: PackageItem[];
+  settingsChanges: SettingChange[];
+  includeSettings: boolean;
+}
+
+function formatTranscriptEntry(entry: RoleTranscriptEntry): string {
+  const content = typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content);
+  return `[${entry.role}] ${entry.kind}${entry.name ? ` ${entry.name}` : ''}: ${content}`;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+interface AgentStreamEvent {
+  type: 'plan_generated' | 'execution_started' | 'step_started' | 'tool_call_started' | 'tool_call_finished' | 'step_evaluated' | 'file_changed' | 'preview_checked' | 'report' | 'error';
+  [key: string]: unknown;
+}
+
+async function readAgentEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: AgentStreamEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as AgentStreamEvent);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
 type EditorTab = 'visual' | 'code' | 'ai' | 'languages' | 'packages' | 'terminal' | 'seo' | 'resources' | 'deployment' | 'integrations';
 
 const defaultResources: ResourceConfig = {
@@ -117,21 +379,6 @@ const aiModelPresets = {
   'custom': { name: 'Custom', ram: 128, cpu: 8, gpuCount: 1, gpuType: 'NVIDIA A100', gpuMemory: 80, disk: 500, networkBandwidth: 100, description: 'Configure your own resources' }
 };
 
-const defaultDeployment: DeploymentConfig = {
-  type: 'autoscale',
-  cpu: 1,
-  ram: 2
-};
-
-const defaultSEO: SEOSettings = {
-  title: '',
-  description: '',
-  keywords: '',
-  ogImage: '',
-  favicon: '',
-  robots: 'index, follow'
-};
-
 const availableLanguages = [
   { id: 'javascript', name: 'JavaScript', icon: 'JS', category: 'Frontend' },
   { id: 'typescript', name: 'TypeScript', icon: 'TS', category: 'Frontend' },
@@ -201,98 +448,6 @@ const packageManagers = [
   { id: 'conan', name: 'Conan (C/C++)', language: 'cpp' },
 ];
 
-const availableIntegrations: IntegrationItem[] = [
-  { id: 'analytics', name: 'Google Analytics', enabled: false },
-  { id: 'gtm', name: 'Google Tag Manager', enabled: false },
-  { id: 'mixpanel', name: 'Mixpanel', enabled: false },
-  { id: 'amplitude', name: 'Amplitude', enabled: false },
-  { id: 'segment', name: 'Segment', enabled: false },
-  { id: 'hotjar', name: 'Hotjar', enabled: false },
-  { id: 'posthog', name: 'PostHog', enabled: false },
-  { id: 'stripe', name: 'Stripe Payments', enabled: false },
-  { id: 'paypal', name: 'PayPal', enabled: false },
-  { id: 'square', name: 'Square Payments', enabled: false },
-  { id: 'braintree', name: 'Braintree', enabled: false },
-  { id: 'paddle', name: 'Paddle', enabled: false },
-  { id: 'lemonsqueezy', name: 'Lemon Squeezy', enabled: false },
-  { id: 'auth0', name: 'Auth0', enabled: false },
-  { id: 'clerk', name: 'Clerk', enabled: false },
-  { id: 'nextauth', name: 'NextAuth.js', enabled: false },
-  { id: 'supabase-auth', name: 'Supabase Auth', enabled: false },
-  { id: 'firebase-auth', name: 'Firebase Auth', enabled: false },
-  { id: 'okta', name: 'Okta', enabled: false },
-  { id: 'keycloak', name: 'Keycloak', enabled: false },
-  { id: 'cloudinary', name: 'Cloudinary', enabled: false },
-  { id: 'uploadthing', name: 'UploadThing', enabled: false },
-  { id: 'imagekit', name: 'ImageKit', enabled: false },
-  { id: 'bunnycdn', name: 'BunnyCDN', enabled: false },
-  { id: 'cloudflare-images', name: 'Cloudflare Images', enabled: false },
-  { id: 'sendgrid', name: 'SendGrid', enabled: false },
-  { id: 'resend', name: 'Resend', enabled: false },
-  { id: 'postmark', name: 'Postmark', enabled: false },
-  { id: 'mailgun', name: 'Mailgun', enabled: false },
-  { id: 'mailchimp', name: 'Mailchimp', enabled: false },
-  { id: 'convertkit', name: 'ConvertKit', enabled: false },
-  { id: 'twilio', name: 'Twilio', enabled: false },
-  { id: 'vonage', name: 'Vonage', enabled: false },
-  { id: 'messagebird', name: 'MessageBird', enabled: false },
-  { id: 'firebase', name: 'Firebase', enabled: false },
-  { id: 'supabase', name: 'Supabase', enabled: false },
-  { id: 'planetscale', name: 'PlanetScale', enabled: false },
-  { id: 'neon', name: 'Neon Database', enabled: false },
-  { id: 'xata', name: 'Xata', enabled: false },
-  { id: 'turso', name: 'Turso', enabled: false },
-  { id: 'mongodb', name: 'MongoDB Atlas', enabled: false },
-  { id: 'fauna', name: 'Fauna', enabled: false },
-  { id: 'cockroachdb', name: 'CockroachDB', enabled: false },
-  { id: 'redis', name: 'Redis/Upstash', enabled: false },
-  { id: 'openai', name: 'OpenAI', enabled: false },
-  { id: 'anthropic', name: 'Anthropic Claude', enabled: false },
-  { id: 'google-ai', name: 'Google AI (Gemini)', enabled: false },
-  { id: 'cohere', name: 'Cohere', enabled: false },
-  { id: 'replicate', name: 'Replicate', enabled: false },
-  { id: 'huggingface', name: 'Hugging Face', enabled: false },
-  { id: 'stability', name: 'Stability AI', enabled: false },
-  { id: 'elevenlabs', name: 'ElevenLabs', enabled: false },
-  { id: 'vercel', name: 'Vercel', enabled: false },
-  { id: 'netlify', name: 'Netlify', enabled: false },
-  { id: 'railway', name: 'Railway', enabled: false },
-  { id: 'render', name: 'Render', enabled: false },
-  { id: 'fly', name: 'Fly.io', enabled: false },
-  { id: 'aws', name: 'AWS', enabled: false },
-  { id: 'gcp', name: 'Google Cloud', enabled: false },
-  { id: 'azure', name: 'Azure', enabled: false },
-  { id: 'digitalocean', name: 'DigitalOcean', enabled: false },
-  { id: 'cloudflare', name: 'Cloudflare', enabled: false },
-  { id: 'github', name: 'GitHub', enabled: false },
-  { id: 'gitlab', name: 'GitLab', enabled: false },
-  { id: 'bitbucket', name: 'Bitbucket', enabled: false },
-  { id: 'linear', name: 'Linear', enabled: false },
-  { id: 'jira', name: 'Jira', enabled: false },
-  { id: 'notion', name: 'Notion', enabled: false },
-  { id: 'slack', name: 'Slack', enabled: false },
-  { id: 'discord', name: 'Discord', enabled: false },
-  { id: 'telegram', name: 'Telegram', enabled: false },
-  { id: 'sentry', name: 'Sentry', enabled: false },
-  { id: 'datadog', name: 'Datadog', enabled: false },
-  { id: 'logrocket', name: 'LogRocket', enabled: false },
-  { id: 'newrelic', name: 'New Relic', enabled: false },
-  { id: 'algolia', name: 'Algolia', enabled: false },
-  { id: 'meilisearch', name: 'Meilisearch', enabled: false },
-  { id: 'typesense', name: 'Typesense', enabled: false },
-  { id: 'elasticsearch', name: 'Elasticsearch', enabled: false },
-  { id: 'shopify', name: 'Shopify', enabled: false },
-  { id: 'woocommerce', name: 'WooCommerce', enabled: false },
-  { id: 'snipcart', name: 'Snipcart', enabled: false },
-  { id: 'medusa', name: 'Medusa', enabled: false },
-  { id: 'contentful', name: 'Contentful', enabled: false },
-  { id: 'sanity', name: 'Sanity', enabled: false },
-  { id: 'strapi', name: 'Strapi', enabled: false },
-  { id: 'prismic', name: 'Prismic', enabled: false },
-  { id: 'datocms', name: 'DatoCMS', enabled: false },
-  { id: 'storyblok', name: 'Storyblok', enabled: false },
-];
-
 export default function ProjectEditorPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
   const router = useRouter();
@@ -324,10 +479,47 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
   
   const [aiPrompt, setAiPrompt] = useState('');
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [livePlan, setLivePlan] = useState<LivePlan | null>(null);
+  const [activeExecutionId, setActiveExecutionId] = useState<string | null>(null);
+  const [stopping, setStopping] = useState(false);
+  const [resumableExecution, setResumableExecution] = useState<ResumableExecution | null>(null);
+  const [pendingQuestion, setPendingQuestion] = useState<PendingQuestion | null>(null);
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [autoApplyChanges, setAutoApplyChanges] = useState(true);
+  const [changeReview, setChangeReview] = useState<ChangeReview | null>(null);
+  const [reviewDiffPath, setReviewDiffPath] = useState<string | null>(null);
+  const [applyingReview, setApplyingReview] = useState(false);
+  const [requirePlanApproval, setRequirePlanApproval] = useState(false);
+  const [selfHeal, setSelfHeal] = useState(false);
+  const [chatMode, setChatMode] = useState<'edit' | 'ask'>('edit');
+  const [draftPlan, setDraftPlan] = useState<DraftPlan | null>(null);
+  const [showMemoryPanel, setShowMemoryPanel] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [executionHistory, setExecutionHistory] = useState<ExecutionSummary[]>([]);
+  const [selectedExecution, setSelectedExecution] = useState<ExecutionDetail | null>(null);
+  const [undoPreview, setUndoPreview] = useState<UndoPreview | null>(null);
+  const [undoDiffPath, setUndoDiffPath] = useState<string | null>(null);
+  const [overwriteEdited, setOverwriteEdited] = useState(false);
+  const [undoing, setUndoing] = useState(false);
+  const [showInstructionsPanel, setShowInstructionsPanel] = useState(false);
+  const [instructions, setInstructions] = useState<ProjectInstructionsVersion>({ version: 0, content: '', createdAt: null });
+  const [instructionsDraft, setInstructionsDraft] = useState('');
+  const [instructionVersions, setInstructionVersions] = useState<ProjectInstructionsVersion[]>([]);
+  const [instructionsError, setInstructionsError] = useState<string | null>(null);
+  const [savingInstructions, setSavingInstructions] = useState(false);
+  const [memoryEntries, setMemoryEntries] = useState<{ memories: MemoryEntry[]; learnings: LearningEntry[] }>({ memories: [], learnings: [] });
+  const [memoryQuery, setMemoryQuery] = useState('');
+  const [newInstruction, setNewInstruction] = useState('');
+  const [editingMemory, setEditingMemory] = useState<{ id: string; content: string } | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const previewRef = useRef<HTMLIFrameElement>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedCodeRef = useRef<string>('');
+  // The files and version this editor last read from or wrote to the server; file saves are merged against it.
+  const syncedFilesRef = useRef<{ files: FileItem[]; updatedAt: string } | null>(null);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const pendingRevealRef = useRef<AnswerReference | null>(null);
+  const [revealRequest, setRevealRequest] = useState(0);
   
   const [webContainerReady, setWebContainerReady] = useState(false);
   const [backendRunning, setBackendRunning] = useState(false);
@@ -353,6 +545,19 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
     }
   }, []);
 
+  useEffect(() => {
+    if (revealRequest > 0) revealPendingLines();
+  }, [revealRequest]);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (data?.user) setAutoApplyChanges(data.user.autoApplyAgentChanges);
+      })
+      .catch(err => console.error('Failed to load preferences:', err));
+  }, []);
+
   useEffect(() => {
     async function loadProject() {
       try {
@@ -368,6 +573,7 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
         
         const data = await projectRes.json();
         setProject(data.project);
+        syncedFilesRef.current = { files: data.project.files || [], updatedAt: data.project.updatedAt };
         
         if (data.project.files && Array.isArray(data.project.files)) {
           setFiles(data.project.files);
@@ -406,6 +612,8 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
           }
         }
         
+        loadResumableExecution(id);
+
         const deployRes = await fetch(`/api/deploy?projectId=${id}`);
         if (deployRes.ok) {
           const deployData = await deployRes.json();
@@ -460,16 +668,11 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
         : files;
       setFiles(updatedFiles);
       
-      await fetch(`/api/projects/${project.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          files: updatedFiles,
-          packages,
-          seoSettings,
-          resources,
-          integrations
-        }),
+      await saveFiles(project.id, updatedFiles, {
+        packages,
+        seoSettings,
+        resources,
+        integrations
       });
     } catch (err) {
       console.error('Save failed:', err);
@@ -511,6 +714,7 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
   }
 
   function addFile() {
+    if (generating) return;
     const name = prompt('Enter file name (e.g., about.html):');
     if (!name) return;
     const newFile: FileItem = {
@@ -524,10 +728,11 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
     setFiles(updated);
     setSelectedFile(newFile);
     setCode('');
-    saveProjectData({ files: updated });
+    saveFileTree(updated);
   }
 
   function addFolder() {
+    if (generating) return;
     const name = prompt('Enter folder name:');
     if (!name) return;
     const newFolder: FileItem = {
@@ -539,11 +744,11 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
     };
     const updated = [...files, newFolder];
     setFiles(updated);
-    saveProjectData({ files: updated });
+    saveFileTree(updated);
   }
 
   function deleteFile(fileId: string) {
-    if (!confirm('Delete this file?')) return;
+    if (generating || !confirm('Delete this file?')) return;
     const removeItem = (items: FileItem[]): FileItem[] => 
       items.filter(i => i.id !== fileId).map(i => ({
         ...i,
@@ -555,7 +760,7 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
       setSelectedFile(null);
       setCode('');
     }
-    saveProjectData({ files: updated });
+    saveFileTree(updated);
   }
 
   function toggleFolder(folderId: string) {
@@ -598,7 +803,7 @@ export default function ProjectEditorPage({ params }: { params: Promise<{ id: st
       autoSaveTimeoutRef.current = setTimeout(() => {
         const updated = updateFileContent(files, selectedFile.id, newCode);
         setFiles(updated);
-        saveProjectData({ files: updated });
+        saveFileTree(updated);
         lastSavedCodeRef.current = newCode;
       }, 1000);
     }
@@ -764,424 +969,6 @@ app.listen(3000, () => console.log('Unified server on port 3000'));
     return allFiles;
   }
 
-  function buildPreviewHTML(allFiles: FileItem[]): string {
-    let htmlContent = '';
-    let cssContent = '';
-    let scssContent = '';
-    let lessContent = '';
-    let jsContent = '';
-    let jsxContent = '';
-    let tsxContent = '';
-    let tsContent = '';
-    let coffeeContent = '';
-    let svelteContent = '';
-    let vueContent = '';
-    let mdContent = '';
-    let jsonContent: Record<string, string> = {};
-    let pythonContent = '';
-    let rubyContent = '';
-    let phpContent = '';
-    let goContent = '';
-    let rustContent = '';
-    let javaContent = '';
-    let cppContent = '';
-    let cContent = '';
-
-    // Detect framework/language usage
-    const hasReact = allFiles.some(f => 
-      f.name.endsWith('.jsx') || f.name.endsWith('.tsx') || 
-      (f.content && (f.content.includes('import React') || f.content.includes('from "react"') || f.content.includes("from 'react'")))
-    );
-    const hasVue = allFiles.some(f => f.name.endsWith('.vue'));
-    const hasSvelte = allFiles.some(f => f.name.endsWith('.svelte'));
-    const hasAngular = allFiles.some(f => f.content && (f.content.includes('@angular') || f.content.includes('ng-')));
-    const hasSolid = allFiles.some(f => f.content && f.content.includes('solid-js'));
-    const hasPreact = allFiles.some(f => f.content && f.content.includes('preact'));
-    const hasLit = allFiles.some(f => f.content && f.content.includes('lit'));
-    const hasAlpine = allFiles.some(f => f.content && (f.content.includes('x-data') || f.content.includes('alpine')));
-    const hasThree = allFiles.some(f => f.content && f.content.includes('three'));
-    const hasPython = allFiles.some(f => f.name.endsWith('.py'));
-    const hasMarkdown = allFiles.some(f => f.name.endsWith('.md') || f.name.endsWith('.mdx'));
-
-    // Collect files by type
-    for (const file of allFiles) {
-      const content = file.content || '';
-      const name = file.name.toLowerCase();
-      
-      if (name.endsWith('.html') || name.endsWith('.htm')) htmlContent = content;
-      else if (name.endsWith('.css')) cssContent += content + '\n';
-      else if (name.endsWith('.scss') || name.endsWith('.sass')) scssContent += content + '\n';
-      else if (name.endsWith('.less')) lessContent += content + '\n';
-      else if (name.endsWith('.jsx')) jsxContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.tsx')) tsxContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.ts') && !name.endsWith('.d.ts')) tsContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.js') || name.endsWith('.mjs')) jsContent += content + '\n';
-      else if (name.endsWith('.coffee')) coffeeContent += content + '\n';
-      else if (name.endsWith('.svelte')) svelteContent += content + '\n';
-      else if (name.endsWith('.vue')) vueContent += content + '\n';
-      else if (name.endsWith('.md') || name.endsWith('.mdx')) mdContent += content + '\n';
-      else if (name.endsWith('.json')) { try { jsonContent[file.name] = content; } catch {} }
-      else if (name.endsWith('.py')) pythonContent += `# File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.rb')) rubyContent += `# File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.php')) phpContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.go')) goContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.rs')) rustContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.java')) javaContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.cpp') || name.endsWith('.cc') || name.endsWith('.cxx')) cppContent += `// File: ${file.name}\n${content}\n`;
-      else if (name.endsWith('.c') || name.endsWith('.h')) cContent += `// File: ${file.name}\n${content}\n`;
-    }
-
-    const baseStyles = `
-      * { margin: 0; padding: 0; box-sizing: border-box; }
-      body { font-family: system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
-      ${cssContent}
-    `;
-
-    // Detect backend/server code to show warning
-    const hasBackend = allFiles.some(f => 
-      f.content && (
-        f.content.includes('express') || 
-        f.content.includes('require(') || 
-        f.content.includes('app.listen') ||
-        f.content.includes('http.createServer') ||
-        f.content.includes('from "express"') ||
-        f.name.includes('server') ||
-        f.name.includes('backend')
-      )
-    );
-
-    // Helper to clean code for browser execution
-    const cleanForBrowser = (code: string): string => {
-      return code
-        // Remove import/require statements (won't work in browser)
-        .replace(/^import\s+.*?from\s+['"][^'"]+['"];?\s*$/gm, '')
-        .replace(/^import\s+['"][^'"]+['"];?\s*$/gm, '')
-        .replace(/^const\s+\w+\s*=\s*require\(['"][^'"]+['"]\);?\s*$/gm, '')
-        .replace(/^import\s*\{[^}]+\}\s*from\s*['"][^'"]+['"];?\s*$/gm, '')
-        .replace(/^export\s+default\s+/gm, '')
-        .replace(/^export\s+/gm, '')
-        // Remove Node.js specific code
-        .replace(/module\.exports\s*=.*/g, '')
-        .replace(/exports\.\w+\s*=.*/g, '');
-    };
-
-    // React/JSX/TSX
-    if (hasReact || jsxContent || tsxContent) {
-      // Filter out server/backend files
-      const frontendJsx = jsxContent.split('\n').filter(line => 
-        !line.includes('express') && !line.includes('app.listen') && !line.includes('require(')
-      ).join('\n');
-      const frontendTsx = tsxContent.split('\n').filter(line => 
-        !line.includes('express') && !line.includes('app.listen') && !line.includes('require(')
-      ).join('\n');
-      
-      const allJsxCode = cleanForBrowser(frontendJsx + frontendTsx + tsContent);
-      
-      const backendWarning = hasBackend ? `
-        <div style="background: linear-gradient(135deg, #1e3a5f 0%, #0f172a 100%); border-left: 4px solid #06b6d4; padding: 12px 16px; margin-bottom: 16px; font-size: 14px; color: #94a3b8;">
-          <strong style="color: #06b6d4;">Fullstack App Detected</strong><br/>
-          Express/Node.js backend requires deployment. This preview shows the frontend UI only.
-        </div>` : '';
-      
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>React Preview</title>
-  <script src="https://unpkg.com/react@18/umd/react.development.js" crossorigin></script>
-  <script src="https://unpkg.com/react-dom@18/umd/react-dom.development.js" crossorigin></script>
-  <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body class="bg-gray-900 text-white min-h-screen">
-  ${backendWarning}
-  <div id="root"></div>
-  <script>
-    // Mock fetch for API calls in preview mode
-    const originalFetch = window.fetch;
-    window.fetch = async (url, options) => {
-      if (typeof url === 'string' && (url.startsWith('/api') || url.startsWith('http://localhost'))) {
-        console.warn('[Preview] API call mocked:', url);
-        return { ok: true, json: async () => ({ message: 'Mocked response - deploy for real API' }), text: async () => 'Mocked' };
-      }
-      return originalFetch(url, options);
-    };
-  </script>
-  <script type="text/babel" data-presets="react,typescript">
-    const { useState, useEffect, useRef, useCallback, useMemo, useContext, createContext, useReducer, useLayoutEffect, useImperativeHandle, useDebugValue, useDeferredValue, useTransition, useId, useSyncExternalStore, useInsertionEffect, Fragment, Suspense, lazy, memo, forwardRef, Component, PureComponent, Children, cloneElement, isValidElement, createElement } = React;
-    
-    ${allJsxCode}
-    
-    // Find and render the main component
-    try {
-      const root = document.getElementById('root');
-      if (typeof App !== 'undefined') {
-        ReactDOM.createRoot(root).render(React.createElement(App));
-      } else if (typeof Main !== 'undefined') {
-        ReactDOM.createRoot(root).render(React.createElement(Main));
-      } else if (typeof Calculator !== 'undefined') {
-        ReactDOM.createRoot(root).render(React.createElement(Calculator));
-      } else if (typeof Home !== 'undefined') {
-        ReactDOM.createRoot(root).render(React.createElement(Home));
-      } else if (typeof Index !== 'undefined') {
-        ReactDOM.createRoot(root).render(React.createElement(Index));
-      } else {
-        // Try to find any component function
-        const components = Object.keys(window).filter(k => typeof window[k] === 'function' && /^[A-Z]/.test(k));
-        if (components.length > 0) {
-          ReactDOM.createRoot(root).render(React.createElement(window[components[0]]));
-        } else {
-          root.innerHTML = '<div class="p-8 text-center"><h2 class="text-xl text-cyan-400">No React component found</h2><p class="mt-2 text-gray-400">Create a function named App, Main, or any PascalCase component.</p></div>';
-        }
-      }
-    } catch (e) { 
-      document.getElementById('root').innerHTML = '<div class="p-4"><div class="text-red-400 font-bold mb-2">React Error:</div><pre class="bg-gray-800 p-4 rounded text-sm overflow-auto text-red-300">' + (e.stack || e.message) + '</pre></div>'; 
-      console.error(e);
-    }
-  </script>
-</body></html>`;
-    }
-
-    // Preact
-    if (hasPreact) {
-      const allCode = jsxContent + tsxContent + jsContent;
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Preact Preview</title>
-  <script src="https://unpkg.com/preact@10/dist/preact.umd.js"></script>
-  <script src="https://unpkg.com/preact@10/hooks/dist/hooks.umd.js"></script>
-  <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  <div id="root"></div>
-  <script type="text/babel" data-presets="react">
-    const { h, render, Component } = preact;
-    const { useState, useEffect, useRef, useCallback, useMemo } = preactHooks;
-    ${allCode}
-    try { if (typeof App !== 'undefined') render(h(App), document.getElementById('root')); } catch(e) { document.getElementById('root').innerHTML = '<pre style="color:red">' + e.message + '</pre>'; }
-  </script>
-</body></html>`;
-    }
-
-    // Solid.js
-    if (hasSolid) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Solid Preview</title>
-  <script src="https://unpkg.com/solid-js@1/dist/solid.cjs"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  <div id="root"></div>
-  <script type="module">
-    import { render, createSignal, createEffect, createMemo, onMount, onCleanup, Show, For, Switch, Match } from 'https://esm.sh/solid-js@1';
-    import { Dynamic, Portal } from 'https://esm.sh/solid-js@1/web';
-    ${jsxContent + jsContent}
-    try { if (typeof App !== 'undefined') render(App, document.getElementById('root')); } catch(e) { console.error(e); }
-  </script>
-</body></html>`;
-    }
-
-    // Vue 3
-    if (hasVue || vueContent) {
-      const vueScriptMatch = vueContent.match(/<script[^>]*>([\s\S]*?)<\/script>/);
-      const vueTemplateMatch = vueContent.match(/<template[^>]*>([\s\S]*?)<\/template>/);
-      const vueStyleMatch = vueContent.match(/<style[^>]*>([\s\S]*?)<\/style>/);
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Vue Preview</title>
-  <script src="https://unpkg.com/vue@3/dist/vue.global.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}${vueStyleMatch?.[1] || ''}</style>
-</head><body>
-  <div id="app">${vueTemplateMatch?.[1] || ''}</div>
-  <script>
-    const { createApp, ref, reactive, computed, watch, watchEffect, onMounted, onUnmounted, onBeforeMount, onBeforeUnmount, nextTick, provide, inject, toRef, toRefs, shallowRef, triggerRef, customRef, markRaw, toRaw, isRef, unref, proxyRefs, shallowReactive, shallowReadonly, readonly, isProxy, isReactive, isReadonly } = Vue;
-    ${jsContent}
-    ${vueScriptMatch?.[1] || ''}
-    try {
-      const app = createApp(typeof App !== 'undefined' ? App : { data() { return {} } });
-      app.mount('#app');
-    } catch(e) { document.getElementById('app').innerHTML = '<pre style="color:red">' + e.message + '</pre>'; }
-  </script>
-</body></html>`;
-    }
-
-    // Svelte (limited browser support via svelte/compiler)
-    if (hasSvelte || svelteContent) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Svelte Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  <div id="app"></div>
-  <script type="module">
-    import * as svelte from 'https://esm.sh/svelte@4';
-    const svelteCode = ${JSON.stringify(svelteContent)};
-    document.getElementById('app').innerHTML = '<div class="p-4"><h2 class="text-xl font-bold text-cyan-400">Svelte Preview</h2><p class="text-gray-300 mt-2">Svelte requires compilation. Code detected:</p><pre class="mt-4 p-4 bg-gray-800 rounded text-sm overflow-auto text-green-400">' + svelteCode.replace(/</g, '&lt;').slice(0, 2000) + '</pre></div>';
-  </script>
-</body></html>`;
-    }
-
-    // Angular (limited - shows code)
-    if (hasAngular) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Angular Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  <div id="app" class="p-4">
-    <h2 class="text-xl font-bold text-red-400">Angular Preview</h2>
-    <p class="text-gray-300 mt-2">Angular requires full build toolchain. TypeScript code detected:</p>
-    <pre class="mt-4 p-4 bg-gray-800 rounded text-sm overflow-auto text-green-400">${(tsContent + tsxContent).replace(/</g, '&lt;').slice(0, 3000)}</pre>
-  </div>
-</body></html>`;
-    }
-
-    // Lit
-    if (hasLit) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Lit Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  <div id="app"></div>
-  <script type="module">
-    import { LitElement, html, css } from 'https://esm.sh/lit@3';
-    import { customElement, property, state } from 'https://esm.sh/lit@3/decorators.js';
-    ${jsContent + tsContent}
-    document.getElementById('app').innerHTML = '<my-app></my-app>';
-  </script>
-</body></html>`;
-    }
-
-    // Alpine.js
-    if (hasAlpine) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Alpine Preview</title>
-  <script defer src="https://unpkg.com/alpinejs@3/dist/cdn.min.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  ${htmlContent || '<div x-data="{ open: false }"><button @click="open = !open">Toggle</button><div x-show="open">Hello Alpine!</div></div>'}
-  <script>${jsContent}</script>
-</body></html>`;
-    }
-
-    // Three.js
-    if (hasThree) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Three.js Preview</title>
-  <style>body { margin: 0; } canvas { display: block; }</style>
-</head><body>
-  <script type="module">
-    import * as THREE from 'https://esm.sh/three@0.160';
-    import { OrbitControls } from 'https://esm.sh/three@0.160/examples/jsm/controls/OrbitControls.js';
-    ${jsContent}
-  </script>
-</body></html>`;
-    }
-
-    // Markdown
-    if (hasMarkdown && mdContent) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Markdown Preview</title>
-  <script src="https://cdn.jsdelivr.net/npm/marked/marked.min.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles} .prose { max-width: 65ch; margin: 0 auto; padding: 2rem; }</style>
-</head><body>
-  <article id="content" class="prose prose-invert"></article>
-  <script>
-    document.getElementById('content').innerHTML = marked.parse(${JSON.stringify(mdContent)});
-  </script>
-</body></html>`;
-    }
-
-    // Python (via Pyodide)
-    if (hasPython && pythonContent) {
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>Python Preview</title>
-  <script src="https://cdn.jsdelivr.net/pyodide/v0.24.1/full/pyodide.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>${baseStyles}</style>
-</head><body>
-  <div id="output" class="p-4 font-mono text-green-400 bg-gray-900 min-h-screen whitespace-pre-wrap"></div>
-  <script>
-    async function runPython() {
-      const output = document.getElementById('output');
-      output.textContent = 'Loading Python (Pyodide)...\\n';
-      try {
-        const pyodide = await loadPyodide();
-        pyodide.setStdout({ batched: (msg) => { output.textContent += msg + '\\n'; } });
-        pyodide.setStderr({ batched: (msg) => { output.textContent += 'Error: ' + msg + '\\n'; } });
-        output.textContent += 'Running Python code...\\n\\n';
-        await pyodide.runPythonAsync(${JSON.stringify(pythonContent)});
-      } catch(e) { output.textContent += 'Error: ' + e.message; }
-    }
-    runPython();
-  </script>
-</body></html>`;
-    }
-
-    // Backend languages (show code with syntax highlighting)
-    if (rubyContent || phpContent || goContent || rustContent || javaContent || cppContent || cContent) {
-      const lang = rubyContent ? 'Ruby' : phpContent ? 'PHP' : goContent ? 'Go' : rustContent ? 'Rust' : javaContent ? 'Java' : cppContent ? 'C++' : 'C';
-      const code = rubyContent || phpContent || goContent || rustContent || javaContent || cppContent || cContent;
-      return `<!DOCTYPE html>
-<html><head>
-  <meta charset="UTF-8"><title>${lang} Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/github-dark.min.css">
-  <script src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/highlight.min.js"></script>
-  <style>${baseStyles}</style>
-</head><body class="bg-gray-900 p-4">
-  <h2 class="text-xl font-bold text-cyan-400 mb-4">${lang} Code Preview</h2>
-  <p class="text-gray-400 text-sm mb-4">${lang} requires server-side execution. Showing code with syntax highlighting:</p>
-  <pre><code class="language-${lang.toLowerCase()}">${code.replace(/</g, '&lt;')}</code></pre>
-  <script>hljs.highlightAll();</script>
-</body></html>`;
-    }
-
-    // Default: plain HTML/CSS/JS with TypeScript support
-    if (!htmlContent) {
-      htmlContent = `<!DOCTYPE html>
-<html><head><title>Preview</title><script src="https://cdn.tailwindcss.com"></script></head><body></body></html>`;
-    }
-
-    // Add TypeScript compilation if needed
-    const allScripts = jsContent + tsContent;
-    const needsBabel = tsContent.length > 0;
-
-    let headEnd = htmlContent.indexOf('</head>');
-    let bodyEnd = htmlContent.lastIndexOf('</body>');
-
-    if (headEnd !== -1 && (cssContent || scssContent || lessContent)) {
-      htmlContent = htmlContent.slice(0, headEnd) + `<style>${cssContent}${scssContent}${lessContent}</style>` + htmlContent.slice(headEnd);
-      headEnd = htmlContent.indexOf('</head>');
-      bodyEnd = htmlContent.lastIndexOf('</body>');
-    }
-
-    if (needsBabel && headEnd !== -1) {
-      htmlContent = htmlContent.slice(0, headEnd) + `<script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>` + htmlContent.slice(headEnd);
-      headEnd = htmlContent.indexOf('</head>');
-      bodyEnd = htmlContent.lastIndexOf('</body>');
-    }
-
-    if (bodyEnd !== -1 && allScripts) {
-      const scriptType = needsBabel ? 'text/babel" data-presets="typescript' : 'text/javascript';
-      htmlContent = htmlContent.slice(0, bodyEnd) + `<script type="${scriptType}">${allScripts}</script>` + htmlContent.slice(bodyEnd);
-    }
-
-    return htmlContent;
-  }
-
   useEffect(() => {
     if (previewRef.current && files.length > 0) {
       const allFiles = getAllFiles(files);
@@ -1283,6 +1070,20 @@ app.listen(3000, () => console.log('Unified server on port 3000'));
     saveProjectData({ integrations: updated });
   }
 
+  async function saveFileTree(updated: FileItem[]) {
+    if (!project) return;
+    setSaveStatus('saving');
+    try {
+      await saveFiles(project.id, updated);
+      setSaveStatus('saved');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (err) {
+      console.error('Failed to save files:', err);
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 3000);
+    }
+  }
+
   async function saveProjectData(data: Record<string, unknown>) {
     if (!project) return;
     setSaveStatus('saving');
@@ -1315,90 +1116,835 @@ app.listen(3000, () => console.log('Unified server on port 3000'));
     }
   }
 
-  async function handleAIChat() {
-    if (!aiPrompt.trim() || !project) return;
-    
-    const userMessage = aiPrompt.trim();
-    setChatMessages(prev => [...prev, { role: 'user', content: userMessage }]);
-    setAiPrompt('');
-    setGenerating(true);
-    await saveMessage('user', userMessage);
-
-    try {
-      const res = await fetch('/api/ai/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          prompt: userMessage, 
-          projectId: project.id,
-          mode: 'autonomous',
-          files: files,
-          conversationHistory: chatMessages.slice(-20)
-        }),
-      });
+  async function runAgent(requestBody: Record<string, unknown>) {
+    const reviewChanges = !autoApplyChanges;
+    const res = await fetch('/api/ai/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...requestBody, mode: 'edit', selfHeal, reviewChanges, stream: true }),
+    });
 
-      if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.error || 'Request failed');
+    if (!res.ok || !res.body) {
+      const err = await res.json().catch(() => ({}));
+      if (err.conflict) {
+        if (err.project?.files) {
+          applyMergedFiles(err.project.files);
+          syncedFilesRef.current = { files: err.project.files, updatedAt: err.project.updatedAt };
+        }
+        throw new Error('This project was changed elsewhere while your request was being sent. The latest files have been loaded; please send your request again.');
       }
+      throw new Error(err.error || 'Request failed');
+    }
 
+    if (res.headers.get('Content-Type')?.includes('application/json')) {
       const data = await res.json();
-      
-      if (data.updatedFiles && data.updatedFiles.length > 0) {
-        setFiles(data.updatedFiles);
-      }
-      
-      if (data.newPackages && data.newPackages.length > 0) {
-        setPackages(prev => [...prev, ...data.newPackages]);
-      }
-      
-      if (data.terminalOutput && data.terminalOutput.length > 0) {
-        setTerminalOutput(prev => [...prev, ...data.terminalOutput]);
-      }
-      
-      let assistantMessage = data.message || '';
-      
-      if (data.toolResults && data.toolResults.length > 0) {
-        const actions = data.toolResults.map((t: { tool: string; success: boolean; result: { message?: string } }) => 
-          `${t.success ? '✓' : '✗'} ${t.result?.message || t.tool}`
-        ).join('\n');
-        
-        if (actions && !assistantMessage.includes(actions)) {
-          assistantMessage += `\n\n**Actions performed:**\n${actions}`;
+      if (!data.awaitingApproval) throw new Error(data.error || 'Unexpected response');
+      setDraftPlan({
+        executionId: data.executionId,
+        goal: data.plan.goal,
+        analysis: data.plan.analysis,
+        complexity: data.plan.complexity,
+        steps: data.plan.steps.map((step: DraftPlanStep) => ({
+          id: step.id,
+          description: step.description,
+          action: step.action,
+          toolsNeeded: step.toolsNeeded,
+          dependencies: step.dependencies,
+          expectedOutcome: step.expectedOutcome,
+        })),
+        enhancements: (data.plan.proactiveEnhancements as string[]).map(text => ({ text, enabled: true })),
+      });
+      return;
+    }
+
+    const outcome: { report?: AgentReport; error?: string } = {};
+
+    await readAgentEventStream(res.body, (event) => {
+      switch (event.type) {
+        case 'execution_started':
+          setActiveExecutionId(event.executionId as string);
+          break;
+        case 'plan_generated': {
+          const plan = event.plan as LivePlan;
+          setLivePlan({
+            goal: plan.goal,
+            analysis: plan.analysis,
+            complexity: plan.complexity,
+            steps: plan.steps.map(s => ({ id: s.id, description: s.description, status: s.status, retryCount: s.retryCount })),
+          });
+          break;
         }
+        case 'step_started':
+          setLivePlan(prev => prev && {
+            ...prev,
+            steps: prev.steps.map(s => s.id === event.stepId ? { ...s, status: 'in_progress' } : s),
+          });
+          break;
+        case 'tool_call_started':
+          setLivePlan(prev => prev && {
+            ...prev,
+            steps: prev.steps.map(s => s.id === event.stepId ? { ...s, activeTool: event.tool as string } : s),
+          });
+          break;
+        case 'tool_call_finished':
+          setLivePlan(prev => prev && {
+            ...prev,
+            steps: prev.steps.map(s => s.id === event.stepId ? { ...s, activeTool: undefined } : s),
+          });
+          break;
+        case 'step_evaluated':
+          setLivePlan(prev => prev && {
+            ...prev,
+            steps: prev.steps.map(s => s.id === event.stepId ? {
+              ...s,
+              status: event.status as LivePlanStep['status'],
+              retryCount: event.retryCount as number,
+              evaluation: event.evaluation as LivePlanStep['evaluation'],
+            } : s),
+          });
+          break;
+        case 'file_changed':
+          if (!reviewChanges) setFiles(event.files as FileItem[]);
+          break;
+        case 'preview_checked':
+          setLivePlan(prev => prev && {
+            ...prev,
+            previewCheck: {
+              iteration: event.iteration as number,
+              problems: event.problems as string[],
+              skipped: event.skipped as string | undefined,
+            },
+          });
+          break;
+        case 'report':
+          outcome.report = event.result as AgentReport;
+          break;
+        case 'error':
+          outcome.error = event.error as string;
+          break;
       }
+    });
+
+    if (outcome.error) throw new Error(outcome.error);
+    if (!outcome.report) throw new Error('Agent stream ended without a report');
+    const data = outcome.report;
+
+    if (data.updatedFiles && data.updatedFiles.length > 0) {
+      setFiles(data.updatedFiles);
+      if (data.projectUpdatedAt) syncedFilesRef.current = { files: data.updatedFiles, updatedAt: data.projectUpdatedAt };
+    }
+    
+    const newPackages = data.newPackages;
+    if (!data.reviewRequired && newPackages && newPackages.length > 0) {
+      setPackages(prev => [...prev, ...newPackages]);
+    }
+    
+    if (!data.reviewRequired) {
+      if (data.updatedSettings?.seoSettings) setSeoSettings(data.updatedSettings.seoSettings);
+      if (data.updatedSettings?.deploymentConfig) setDeploymentConfig(data.updatedSettings.deploymentConfig);
+      if (data.updatedSettings?.integrations) setIntegrations(data.updatedSettings.integrations);
+    }
+
+    const agentTerminalOutput = data.terminalOutput;
+    if (agentTerminalOutput && agentTerminalOutput.length > 0) {
+      setTerminalOutput(prev => [...prev, ...agentTerminalOutput]);
+    }
+    
+    let assistantMessage = data.message || '';
+    
+    if (data.toolResults && data.toolResults.length > 0) {
+      const actions = data.toolResults.map(t => 
+        `${t.success ? '✓' : '✗'} ${t.result?.message || t.tool}`
+      ).join('\n');
       
-      if (data.generatedImages && data.generatedImages.length > 0) {
-        assistantMessage += `\n\n**Generated ${data.generatedImages.length} image(s)** - Check the file tree under /images`;
+      if (actions && !assistantMessage.includes(actions)) {
+        assistantMessage += `\n\n**Actions performed:**\n${actions}`;
       }
-      
-      if (data.contextCompacted) {
-        assistantMessage += '\n\n*Context compacted to maintain performance*';
+    }
+    
+    if (data.generatedImages && data.generatedImages.length > 0) {
+      assistantMessage += `\n\n**Generated ${data.generatedImages.length} image(s)** - Check the file tree under /images`;
+    }
+    
+    if (data.settingsChanges && data.settingsChanges.length > 0) {
+      assistantMessage += `\n\n**Project settings ${data.reviewRequired ? 'to review' : 'changed'}:**\n${data.settingsChanges.map(c => `- ${formatSettingChange(c)}`).join('\n')}`;
+    }
+    
+    if (data.fileConflicts && data.fileConflicts.length > 0) {
+      assistantMessage += `\n\n**Kept the newer saved version of:** ${data.fileConflicts.join(', ')} (these files were edited elsewhere while the agent was running)`;
+    }
+    
+    if (data.contextCompacted && data.contextCompaction) {
+      const { summarizedMessages, totalSummarizedMessages, trimmedFiles, elidedFiles } = data.contextCompaction;
+      const notes: string[] = [];
+      if (summarizedMessages > 0) {
+        notes.push(`summarized ${summarizedMessages} earlier message(s) into the project's running summary (${totalSummarizedMessages} in total)`);
       }
-      
-      setChatMessages(prev => [...prev, { role: 'assistant', content: assistantMessage }]);
-      await saveMessage('assistant', assistantMessage);
+      if (trimmedFiles.length > 0) notes.push(`trimmed ${trimmedFiles.join(', ')}`);
+      if (elidedFiles.length > 0) notes.push(`left out the contents of ${elidedFiles.length} less relevant file(s)`);
+      assistantMessage += `\n\n*Context compacted: ${notes.join('; ')}*`;
+    }
+
+    if (data.selfHealing?.skipped) {
+      assistantMessage += `\n\n**Preview check skipped:** ${data.selfHealing.skipped}.`;
+    } else if (data.selfHealing && data.selfHealing.iterations.length > 0) {
+      const fixed = data.selfHealing.iterations.filter(i => i.status === 'completed').length;
+      const remaining = data.selfHealing.remainingProblems;
+      assistantMessage += `\n\n**Preview check:** ran ${fixed} fix-up pass(es) for runtime errors`;
+      assistantMessage += remaining.length > 0
+        ? `, but these remain:\n${remaining.map(p => `- ${p}`).join('\n')}`
+        : ' and the preview now loads without errors.';
+    }
+    
+    setChatMessages(prev => [...prev, { role: 'assistant', content: assistantMessage }]);
+    await saveMessage('assistant', assistantMessage);
+
+    if (data.reviewRequired && data.executionId) await openChangeReview(data.executionId);
+  }
+
+  async function handleAIChat() {
+    if (!aiPrompt.trim() || !project) return;
+    const userMessage = aiPrompt.trim();
+    setAiPrompt('');
+    if (chatMode === 'ask') await askQuestion(userMessage);
+    else if (pendingQuestion) await answerPendingQuestion(userMessage);
+    else await startAgentRun(userMessage);
+  }
+
+  async function answerPendingQuestion(answer: string) {
+    if (!project || !pendingQuestion) return;
+    const { executionId } = pendingQuestion;
+    setPendingQuestion(null);
+    setChatMessages(prev => [...prev, { role: 'user', content: answer }]);
+    setGenerating(true);
+    await saveMessage('user', answer);
+
+    try {
+      await runAgent({
+        projectId: project.id,
+        answerExecutionId: executionId,
+        answer,
+      });
     } catch (err) {
-      const errorMessage = `Sorry, I encountered an error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      const errorMessage = `Sorry, I could not continue that run: ${err instanceof Error ? err.message : 'Unknown error'}`;
       setChatMessages(prev => [...prev, { role: 'assistant', content: errorMessage }]);
       await saveMessage('assistant', errorMessage);
     } finally {
-      setGenerating(false);
+      finishAgentRun(project.id);
     }
   }
 
-  function renderFileTree(items: FileItem[], depth = 0) {
-    return items.map(item => (
-      <div key={item.id}>
-        <div
-          onClick={() => {
-            if (item.type === 'folder') {
-              toggleFolder(item.id);
-            } else {
-              if (selectedFile) {
-                setFiles(updateFileContent(files, selectedFile.id, code));
-              }
-              setSelectedFile(item);
+  async function handleCancelQuestion() {
+    if (!project || !pendingQuestion) return;
+    try {
+      const res = await fetch(`/api/projects/${project.id}/executions/${pendingQuestion.executionId}/cancel`, { method: 'POST' });
+      if (!res.ok) throw new Error('Cancel failed');
+      setPendingQuestion(null);
+      loadResumableExecution(project.id);
+    } catch (err) {
+      console.error('Failed to cancel execution:', err);
+    }
+  }
+
+  async function askQuestion(question: string) {
+    if (!project) return;
+    setChatMessages(prev => [...prev, { role: 'user', content: question }]);
+    setGenerating(true);
+    await saveMessage('user', question);
+
+    let assistantMessage: string;
+    try {
+      const res = await fetch('/api/ai/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode: 'ask',
+          prompt: question,
+          projectId: project.id,
+          files: selectedFile ? updateFileContent(files, selectedFile.id, code) : files,
+          conversationHistory: chatMessages.slice(-6),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data.error === 'string' ? data.error : 'Request failed');
+      assistantMessage = formatAnswer(data.answer, data.references);
+    } catch (err) {
+      assistantMessage = `Sorry, I encountered an error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+    } finally {
+      setGenerating(false);
+    }
+    setChatMessages(prev => [...prev, { role: 'assistant', content: assistantMessage }]);
+    await saveMessage('assistant', assistantMessage);
+  }
+
+  function openFileAt(reference: AnswerReference) {
+    const target = getAllFiles(files).find(file => file.path === reference.path);
+    if (!target) {
+      alert(`${reference.path} no longer exists in this project.`);
+      return;
+    }
+    if (selectedFile && selectedFile.id !== target.id) {
+      setFiles(updateFileContent(files, selectedFile.id, code));
+    }
+    if (selectedFile?.id !== target.id) {
+      setSelectedFile(target);
+      setCode(target.content || '');
+    }
+    setActiveTab('code');
+    pendingRevealRef.current = reference;
+    setRevealRequest(request => request + 1);
+  }
+
+  function revealPendingLines() {
+    const editor = editorRef.current;
+    const reference = pendingRevealRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model || !reference) return;
+    pendingRevealRef.current = null;
+    if (!reference.startLine) return;
+
+    const startLine = Math.min(reference.startLine, model.getLineCount());
+    const endLine = Math.min(Math.max(reference.endLine ?? startLine, startLine), model.getLineCount());
+    editor.revealLinesInCenter(startLine, endLine);
+    editor.setSelection({ startLineNumber: startLine, startColumn: 1, endLineNumber: endLine, endColumn: model.getLineMaxColumn(endLine) });
+    editor.focus();
+  }
+
+  async function startAgentRun(userMessage: string) {
+    if (!project) return;
+    if (draftPlan) handleDiscardPlan();
+
+    setChatMessages(prev => [...prev, { role: 'user', content: userMessage }]);
+    setGenerating(true);
+    await saveMessage('user', userMessage);
+
+    try {
+      await runAgent({
+        prompt: userMessage,
+        projectId: project.id,
+        requirePlanApproval,
+        baseUpdatedAt: await saveWorkingFiles(project.id),
+      });
+    } catch (err) {
+      const errorMessage = `Sorry, I encountered an error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      setChatMessages(prev => [...prev, { role: 'assistant', content: errorMessage }]);
+      await saveMessage('assistant', errorMessage);
+    } finally {
+      finishAgentRun(project.id);
+    }
+  }
+
+  async function saveWorkingFiles(projectId: string): Promise<string> {
+    if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+    lastSavedCodeRef.current = code;
+    const workingFiles = selectedFile ? updateFileContent(files, selectedFile.id, code) : files;
+    setFiles(workingFiles);
+    const saved = await saveFiles(projectId, workingFiles).catch(() => {
+      throw new Error('Could not save your changes before running the agent');
+    });
+    return saved.updatedAt;
+  }
+
+  // Saves the file tree only if nobody changed the project since this editor last synced. When somebody did,
+  // the server's files are merged with this editor's edits and the merge is saved instead.
+  async function saveFiles(projectId: string, workingFiles: FileItem[], extra: Record<string, unknown> = {}) {
+    let ours = workingFiles;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const synced = syncedFilesRef.current;
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...extra, files: ours, baseUpdatedAt: synced?.updatedAt }),
+      });
+      const data = await res.json();
+
+      if (res.status === 409 && data.project) {
+        const theirs: FileItem[] = data.project.files || [];
+        const merged = mergeFileTrees(synced?.files ?? [], ours, theirs);
+        syncedFilesRef.current = { files: theirs, updatedAt: data.project.updatedAt };
+        ours = merged.files;
+        applyMergedFiles(ours);
+        if (merged.conflicts.length > 0) {
+          alert(`These files were also changed elsewhere and now hold the newer version: ${merged.conflicts.join(', ')}`);
+        }
+        continue;
+      }
+      if (!res.ok) throw new Error(typeof data.error === 'string' ? data.error : 'Save failed');
+
+      syncedFilesRef.current = { files: ours, updatedAt: data.project.updatedAt };
+      return { files: ours, updatedAt: data.project.updatedAt as string };
+    }
+    throw new Error('The project kept changing while saving; reload the page to get the latest files');
+  }
+
+  function applyMergedFiles(merged: FileItem[]) {
+    setFiles(merged);
+    if (!selectedFile) return;
+    const reopened = getAllFiles(merged).find(file => file.path === selectedFile.path) ?? null;
+    setSelectedFile(reopened);
+    setCode(reopened?.content || '');
+    lastSavedCodeRef.current = reopened?.content || '';
+  }
+
+  function finishAgentRun(projectId: string) {
+    setGenerating(false);
+    setLivePlan(null);
+    setActiveExecutionId(null);
+    setStopping(false);
+    loadResumableExecution(projectId);
+    if (showHistoryPanel) loadExecutionHistory();
+  }
+
+  async function handleApprovePlan() {
+    if (!project || !draftPlan) return;
+    const plan = draftPlan;
+    setDraftPlan(null);
+    setGenerating(true);
+
+    try {
+      await runAgent({
+        projectId: project.id,
+        approveExecutionId: plan.executionId,
+        approvedPlan: {
+          goal: plan.goal,
+          analysis: plan.analysis,
+          complexity: plan.complexity,
+          steps: plan.steps,
+          proactiveEnhancements: plan.enhancements.filter(e => e.enabled).map(e => e.text),
+        },
+        baseUpdatedAt: await saveWorkingFiles(project.id),
+      });
+    } catch (err) {
+      const errorMessage = `Sorry, I could not run the approved plan: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      setChatMessages(prev => [...prev, { role: 'assistant', content: errorMessage }]);
+      await saveMessage('assistant', errorMessage);
+    } finally {
+      finishAgentRun(project.id);
+    }
+  }
+
+  async function handleDiscardPlan() {
+    if (!project || !draftPlan) return;
+    const executionId = draftPlan.executionId;
+    setDraftPlan(null);
+    try {
+      await fetch(`/api/projects/${project.id}/executions/${executionId}/cancel`, { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to discard plan:', err);
+    }
+  }
+
+  function updateDraftStep(index: number, changes: Partial<DraftPlanStep>) {
+    setDraftPlan(prev => prev && {
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, ...changes } : step),
+    });
+  }
+
+  function moveDraftStep(index: number, offset: number) {
+    setDraftPlan(prev => {
+      if (!prev) return prev;
+      const target = index + offset;
+      if (target < 0 || target >= prev.steps.length) return prev;
+      const steps = [...prev.steps];
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...prev, steps };
+    });
+  }
+
+  function removeDraftStep(index: number) {
+    setDraftPlan(prev => prev && { ...prev, steps: prev.steps.filter((_, i) => i !== index) });
+  }
+
+  function addDraftStep() {
+    setDraftPlan(prev => prev && {
+      ...prev,
+      steps: [...prev.steps, {
+        id: `step_${Date.now()}`,
+        description: '',
+        action: '',
+        toolsNeeded: [],
+        dependencies: [],
+        expectedOutcome: '',
+      }],
+    });
+  }
+
+  function toggleDraftEnhancement(index: number) {
+    setDraftPlan(prev => prev && {
+      ...prev,
+      enhancements: prev.enhancements.map((e, i) => i === index ? { ...e, enabled: !e.enabled } : e),
+    });
+  }
+
+  async function handleResumeExecution() {
+    if (!project || !resumableExecution) return;
+    setChatMessages(prev => [...prev, { role: 'user', content: `Resume: ${resumableExecution.userGoal}` }]);
+    setResumableExecution(null);
+    setGenerating(true);
+
+    try {
+      await runAgent({
+        projectId: project.id,
+        resumeExecutionId: resumableExecution.id,
+      });
+    } catch (err) {
+      const errorMessage = `Sorry, I could not resume that run: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      setChatMessages(prev => [...prev, { role: 'assistant', content: errorMessage }]);
+      await saveMessage('assistant', errorMessage);
+    } finally {
+      finishAgentRun(project.id);
+    }
+  }
+
+  async function handleStopExecution() {
+    if (!project || !activeExecutionId) return;
+    setStopping(true);
+    try {
+      const res = await fetch(`/api/projects/${project.id}/executions/${activeExecutionId}/cancel`, { method: 'POST' });
+      if (!res.ok) throw new Error('Cancel failed');
+    } catch (err) {
+      console.error('Failed to stop execution:', err);
+      setStopping(false);
+    }
+  }
+
+  async function loadMemoryEntries(query = memoryQuery) {
+    if (!project) return;
+    try {
+      const params = query.trim() ? `?q=${encodeURIComponent(query.trim())}` : '';
+      const res = await fetch(`/api/projects/${project.id}/memory${params}`);
+      if (!res.ok) throw new Error('Failed to load memory');
+      setMemoryEntries(await res.json());
+    } catch (err) {
+      console.error('Failed to load memory:', err);
+    }
+  }
+
+  function toggleMemoryPanel() {
+    if (!showMemoryPanel) loadMemoryEntries();
+    setShowMemoryPanel(!showMemoryPanel);
+    setShowHistoryPanel(false);
+    setShowInstructionsPanel(false);
+  }
+
+  async function loadInstructions() {
+    if (!project) return;
+    try {
+      const res = await fetch(`/api/projects/${project.id}/instructions`);
+      if (!res.ok) throw new Error('Failed to load instructions');
+      const data = await res.json();
+      setInstructions(data.instructions);
+      setInstructionsDraft(data.instructions.content);
+      setInstructionVersions(data.versions);
+      setInstructionsError(null);
+    } catch (err) {
+      console.error('Failed to load instructions:', err);
+    }
+  }
+
+  function toggleInstructionsPanel() {
+    if (!showInstructionsPanel) loadInstructions();
+    setShowInstructionsPanel(!showInstructionsPanel);
+    setShowMemoryPanel(false);
+    setShowHistoryPanel(false);
+  }
+
+  async function saveInstructions() {
+    if (!project) return;
+    setSavingInstructions(true);
+    try {
+      const res = await fetch(`/api/projects/${project.id}/instructions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: instructionsDraft, baseVersion: instructions.version }),
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        setInstructions(data.instructions);
+        setInstructionsError(`${data.error}. Your draft was kept; saving again will replace version ${data.instructions.version}.`);
+        return;
+      }
+      if (!res.ok) throw new Error(typeof data.error === 'string' ? data.error : 'Failed to save instructions');
+      setInstructionsError(null);
+      await loadInstructions();
+    } catch (err) {
+      console.error('Failed to save instructions:', err);
+      setInstructionsError(err instanceof Error ? err.message : 'Failed to save instructions');
+    } finally {
+      setSavingInstructions(false);
+    }
+  }
+
+  async function loadExecutionHistory() {
+    if (!project) return;
+    try {
+      const res = await fetch(`/api/projects/${project.id}/executions`);
+      if (!res.ok) throw new Error('Failed to load history');
+      const data = await res.json();
+      setExecutionHistory(data.executions);
+    } catch (err) {
+      console.error('Failed to load execution history:', err);
+    }
+  }
+
+  function toggleHistoryPanel() {
+    if (!showHistoryPanel) loadExecutionHistory();
+    setShowHistoryPanel(!showHistoryPanel);
+    setSelectedExecution(null);
+    setShowMemoryPanel(false);
+    setShowInstructionsPanel(false);
+  }
+
+  async function openExecution(executionId: string) {
+    if (!project) return;
+    try {
+      const res = await fetch(`/api/projects/${project.id}/executions/${executionId}`);
+      if (!res.ok) throw new Error('Failed to load execution');
+      const data = await res.json();
+      setSelectedExecution(data.execution);
+    } catch (err) {
+      console.error('Failed to load execution:', err);
+    }
+  }
+
+  async function openUndoPreview(executionId: string) {
+    if (!project) return;
+    try {
+      // Unsaved editor changes count as edits made after the run.
+      await saveWorkingFiles(project.id);
+      const res = await fetch(`/api/projects/${project.id}/executions/${executionId}/undo`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load undo preview');
+      setUndoPreview({ executionId, ...data.preview });
+      setUndoDiffPath(data.preview.files[0]?.path ?? null);
+      setOverwriteEdited(false);
+    } catch (err) {
+      console.error('Failed to load undo preview:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load undo preview');
+    }
+  }
+
+  function loadProjectState(state: Pick<Project, 'seoSettings' | 'deploymentConfig' | 'integrations' | 'updatedAt'> & { files: FileItem[]; packages: PackageItem[] }) {
+    setFiles(state.files);
+    syncedFilesRef.current = { files: state.files, updatedAt: state.updatedAt };
+    setPackages(state.packages);
+    setSeoSettings(state.seoSettings ?? defaultSEO);
+    setDeploymentConfig(state.deploymentConfig ?? defaultDeployment);
+    setIntegrations(state.integrations ?? availableIntegrations);
+    const reopened = selectedFile ? getAllFiles(state.files).find(file => file.path === selectedFile.path) ?? null : null;
+    setSelectedFile(reopened);
+    setCode(reopened?.content || '');
+    lastSavedCodeRef.current = reopened?.content || '';
+  }
+
+  async function handleUndoExecution() {
+    if (!project || !undoPreview) return;
+    setUndoing(true);
+    try {
+      const res = await fetch(`/api/projects/${project.id}/executions/${undoPreview.executionId}/undo`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overwriteEdited, baseUpdatedAt: undoPreview.projectUpdatedAt }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data.error === 'string' ? data.error : 'Failed to undo the run');
+
+      loadProjectState(data.project);
+
+      const kept: string[] = data.keptEdits;
+      const undoMessage = `↩️ Undid the agent run.${kept.length > 0 ? ` Kept your later edits to ${kept.join(', ')}.` : ''}`;
+      setChatMessages(prev => [...prev, { role: 'assistant', content: undoMessage }]);
+      await saveMessage('assistant', undoMessage);
+      setUndoPreview(null);
+      setSelectedExecution(null);
+      loadExecutionHistory();
+    } catch (err) {
+      console.error('Undo failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to undo the run');
+    } finally {
+      setUndoing(false);
+    }
+  }
+
+  async function openChangeReview(executionId: string) {
+    if (!project) return;
+    try {
+      const res = await fetch(`/api/projects/${project.id}/executions/${executionId}/review`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load the proposed changes');
+      const reviewFiles: ReviewFile[] = data.review.files.map((file: Omit<ReviewFile, 'accepted' | 'hunks' | 'acceptedHunks'>) => {
+        const hunks = file.change === 'modified' ? diffLines(file.before ?? '', file.after ?? '') : [];
+        return { ...file, accepted: true, hunks, acceptedHunks: hunks.map((_, i) => i) };
+      });
+      setChangeReview({
+        executionId,
+        files: reviewFiles,
+        packages: data.review.packages,
+        settingsChanges: data.review.settingsChanges,
+        includeSettings: true,
+      });
+      setReviewDiffPath(reviewFiles[0]?.path ?? null);
+    } catch (err) {
+      console.error('Failed to load change review:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load the proposed changes');
+    }
+  }
+
+  function toggleReviewFile(path: string) {
+    setChangeReview(prev => prev && {
+      ...prev,
+      files: prev.files.map(file => file.path === path
+        ? { ...file, accepted: !file.accepted, acceptedHunks: file.accepted ? [] : file.hunks.map((_, i) => i) }
+        : file),
+    });
+  }
+
+  function toggleReviewHunk(path: string, index: number) {
+    setChangeReview(prev => prev && {
+      ...prev,
+      files: prev.files.map(file => {
+        if (file.path !== path) return file;
+        const acceptedHunks = file.acceptedHunks.includes(index)
+          ? file.acceptedHunks.filter(i => i !== index)
+          : [...file.acceptedHunks, index];
+        return { ...file, acceptedHunks, accepted: acceptedHunks.length > 0 };
+      }),
+    });
+  }
+
+  function reviewedContent(file: ReviewFile): string | null {
+    if (file.change === 'deleted') return null;
+    if (file.change === 'modified' && file.acceptedHunks.length < file.hunks.length) {
+      return applyHunks(file.before ?? '', file.hunks, new Set(file.acceptedHunks));
+    }
+    return file.after;
+  }
+
+  async function handleApplyReview(rejectAll: boolean) {
+    if (!project || !changeReview) return;
+    setApplyingReview(true);
+    try {
+      // Unsaved editor changes are kept for every file the user does not accept.
+      await saveWorkingFiles(project.id);
+      const accepted = rejectAll ? [] : changeReview.files.filter(file => file.accepted);
+      const includeSettings = !rejectAll && changeReview.includeSettings;
+      const res = await fetch(`/api/projects/${project.id}/executions/${changeReview.executionId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          files: accepted.map(file => ({ path: file.path, content: reviewedContent(file) })),
+          includeSettings,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data.error === 'string' ? data.error : 'Failed to apply the changes');
+      if (data.applied) loadProjectState(data.project);
+
+      const partial = accepted.filter(file => file.acceptedHunks.length < file.hunks.length).length;
+      const reviewMessage = data.applied
+        ? `✅ Applied ${accepted.length} of ${changeReview.files.length} changed file(s)${partial > 0 ? ` (${partial} partially)` : ''}${includeSettings && (changeReview.packages.length > 0 || changeReview.settingsChanges.length > 0) ? ' and the package and settings changes' : ''}.`
+        : '🚫 Rejected the agent\'s changes. Nothing was written to the project.';
+      setChatMessages(prev => [...prev, { role: 'assistant', content: reviewMessage }]);
+      await saveMessage('assistant', reviewMessage);
+      setChangeReview(null);
+      setPendingReview(null);
+      setSelectedExecution(null);
+      if (showHistoryPanel) loadExecutionHistory();
+    } catch (err) {
+      console.error('Applying reviewed changes failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to apply the changes');
+    } finally {
+      setApplyingReview(false);
+    }
+  }
+
+  async function handleAutoApplyChange(enabled: boolean) {
+    setAutoApplyChanges(enabled);
+    try {
+      const res = await fetch('/api/auth/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoApplyAgentChanges: enabled }),
+      });
+      if (!res.ok) throw new Error('Failed to save preference');
+    } catch (err) {
+      console.error('Failed to save preference:', err);
+      setAutoApplyChanges(!enabled);
+    }
+  }
+
+  async function handleRerunExecution(goal: string) {
+    setShowHistoryPanel(false);
+    setSelectedExecution(null);
+    await startAgentRun(goal);
+  }
+
+  async function addInstruction() {
+    if (!project || !newInstruction.trim()) return;
+    const res = await fetch(`/api/projects/${project.id}/memory`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: newInstruction.trim() }),
+    });
+    if (res.ok) {
+      setNewInstruction('');
+      loadMemoryEntries();
+    }
+  }
+
+  async function updateMemoryEntry(kind: 'memory' | 'learning', id: string, changes: Record<string, unknown>) {
+    if (!project) return;
+    const path = kind === 'memory' ? `memory/${id}` : `memory/learnings/${id}`;
+    const res = await fetch(`/api/projects/${project.id}/${path}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    if (res.ok) loadMemoryEntries();
+  }
+
+  async function deleteMemoryEntry(kind: 'memory' | 'learning', id: string) {
+    if (!project || !confirm('Delete this entry? The agent will forget it.')) return;
+    const path = kind === 'memory' ? `memory/${id}` : `memory/learnings/${id}`;
+    const res = await fetch(`/api/projects/${project.id}/${path}`, { method: 'DELETE' });
+    if (res.ok) loadMemoryEntries();
+  }
+
+  async function saveMemoryEdit() {
+    if (!editingMemory || !editingMemory.content.trim()) return;
+    await updateMemoryEntry('memory', editingMemory.id, { content: editingMemory.content.trim() });
+    setEditingMemory(null);
+  }
+
+  async function loadResumableExecution(projectId: string) {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/executions`);
+      if (!res.ok) return;
+      const data = await res.json();
+      const latest = data.executions?.[0];
+      setResumableExecution(latest?.resumable ? latest : null);
+      setPendingQuestion(latest?.finalOutcome === 'awaiting_input' && latest.pendingQuestion
+        ? { executionId: latest.id, question: latest.pendingQuestion.question, options: latest.pendingQuestion.options }
+        : null);
+      setPendingReview(latest?.reviewPending ? { executionId: latest.id, userGoal: latest.userGoal } : null);
+    } catch (err) {
+      console.error('Failed to load executions:', err);
+    }
+  }
+
+  function renderFileTree(items: FileItem[], depth = 0) {
+    return items.map(item => (
+      <div key={item.id}>
+        <div
+          onClick={() => {
+            if (item.type === 'folder') {
+              toggleFolder(item.id);
+            } else {
+              if (selectedFile) {
+                setFiles(updateFileContent(files, selectedFile.id, code));
+              }
+              setSelectedFile(item);
               setCode(item.content || '');
             }
           }}
@@ -1535,9 +2081,14 @@ app.listen(3000, () => console.log('Unified server on port 3000'));
                       language={getMonacoLanguage(selectedFile.name)}
                       value={code}
                       onChange={handleCodeChange}
+                      onMount={(editor) => {
+                        editorRef.current = editor;
+                        revealPendingLines();
+                      }}
                       theme="vs-dark"
                       options={{
                         minimap: { enabled: true },
+                        readOnly: generating,
                         fontSize: 14,
                         fontFamily: "'JetBrains Mono', 'Fira Code', Consolas, monospace",
                         lineNumbers: 'on',
@@ -2058,65 +2609,759 @@ app.listen(3000, () => console.log('Unified server on port 3000'));
           )}
 
           {activeTab === 'ai' && (
-            <div className="flex-1 flex flex-col">
-              <div className="flex-1 overflow-y-auto p-6">
-                {chatMessages.length === 0 ? (
-                  <div className="h-full flex items-center justify-center">
-                    <div className="max-w-md text-center">
-                      <div className="w-20 h-20 rounded-full bg-gradient-to-br from-cyan-500/20 to-teal-500/20 flex items-center justify-center mx-auto mb-6">
-                        <Sparkles className="w-10 h-10 text-cyan-400" />
+            <div className="flex-1 flex">
+              <div className="flex-1 flex flex-col">
+                <div className="flex justify-end gap-2 px-4 pt-3">
+                  <button onClick={toggleHistoryPanel} className={`flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border ${showHistoryPanel ? 'border-cyan-500 text-white bg-cyan-500/10' : 'border-cyan-800/50 text-cyan-300 hover:text-white'}`}>
+                    <History className="w-4 h-4" /> Run history
+                  </button>
+                  <button onClick={toggleMemoryPanel} className={`flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border ${showMemoryPanel ? 'border-cyan-500 text-white bg-cyan-500/10' : 'border-cyan-800/50 text-cyan-300 hover:text-white'}`}>
+                    <Brain className="w-4 h-4" /> Agent memory
+                  </button>
+                  <button onClick={toggleInstructionsPanel} className={`flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg border ${showInstructionsPanel ? 'border-cyan-500 text-white bg-cyan-500/10' : 'border-cyan-800/50 text-cyan-300 hover:text-white'}`}>
+                    <ScrollText className="w-4 h-4" /> Instructions
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-6">
+                  {chatMessages.length === 0 ? (
+                    <div className="h-full flex items-center justify-center">
+                      <div className="max-w-md text-center">
+                        <div className="w-20 h-20 rounded-full bg-gradient-to-br from-cyan-500/20 to-teal-500/20 flex items-center justify-center mx-auto mb-6">
+                          <Sparkles className="w-10 h-10 text-cyan-400" />
+                        </div>
+                        <h2 className="text-2xl font-bold text-white mb-2">hgland Agent</h2>
+                        <p className="text-cyan-300 mb-2">Powered by GPT-5.1 Codex Max</p>
+                        <p className="text-cyan-400/60 text-sm">Chat with me or ask me to generate files!</p>
                       </div>
-                      <h2 className="text-2xl font-bold text-white mb-2">hgland Agent</h2>
-                      <p className="text-cyan-300 mb-2">Powered by GPT-5.1 Codex Max</p>
-                      <p className="text-cyan-400/60 text-sm">Chat with me or ask me to generate files!</p>
                     </div>
-                  </div>
-                ) : (
-                  <div className="max-w-3xl mx-auto space-y-4">
-                    {chatMessages.map((msg, i) => (
-                      <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`max-w-[80%] px-4 py-3 rounded-2xl ${msg.role === 'user' ? 'bg-gradient-to-r from-cyan-500 to-teal-500 text-white' : 'bg-cyan-900/40 border border-cyan-800/50 text-cyan-100'}`}>
-                          {msg.role === 'user' ? (
-                            <span className="whitespace-pre-wrap">{msg.content}</span>
-                          ) : (
-                            <div className="prose prose-invert prose-sm max-w-none prose-p:my-2 prose-headings:text-cyan-200 prose-code:bg-cyan-950 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-cyan-950 prose-pre:border prose-pre:border-cyan-800/50 prose-a:text-cyan-400 prose-strong:text-cyan-200 prose-ul:my-2 prose-ol:my-2 prose-li:my-0">
-                              <ReactMarkdown>{msg.content}</ReactMarkdown>
+                  ) : (
+                    <div className="max-w-3xl mx-auto space-y-4">
+                      {chatMessages.map((msg, i) => (
+                        <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                          <div className={`max-w-[80%] px-4 py-3 rounded-2xl ${msg.role === 'user' ? 'bg-gradient-to-r from-cyan-500 to-teal-500 text-white' : 'bg-cyan-900/40 border border-cyan-800/50 text-cyan-100'}`}>
+                            {msg.role === 'user' ? (
+                              <span className="whitespace-pre-wrap">{msg.content}</span>
+                            ) : (
+                              <div className="prose prose-invert prose-sm max-w-none prose-p:my-2 prose-headings:text-cyan-200 prose-code:bg-cyan-950 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-cyan-950 prose-pre:border prose-pre:border-cyan-800/50 prose-a:text-cyan-400 prose-strong:text-cyan-200 prose-ul:my-2 prose-ol:my-2 prose-li:my-0">
+                                <ReactMarkdown
+                                  components={{
+                                    a: ({ href, children }) => {
+                                      const reference = href ? parseFileLink(href) : null;
+                                      if (!reference) return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+                                      return (
+                                        <button onClick={() => openFileAt(reference)} className="font-mono text-cyan-400 hover:text-cyan-200 hover:underline">
+                                          {children}
+                                        </button>
+                                      );
+                                    },
+                                  }}
+                                >
+                                  {msg.content}
+                                </ReactMarkdown>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      {generating && !livePlan && (
+                        <div className="flex justify-start">
+                          <div className="bg-cyan-900/40 border border-cyan-800/50 px-4 py-3 rounded-2xl flex items-center gap-2">
+                            <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />
+                            <span className="text-cyan-300">Thinking...</span>
+                          </div>
+                        </div>
+                      )}
+                      {generating && livePlan && (
+                        <div className="flex justify-start">
+                          <div className="w-full max-w-[80%] bg-cyan-900/40 border border-cyan-800/50 px-4 py-3 rounded-2xl">
+                            <div className="flex items-center gap-2 mb-1">
+                              <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />
+                              <span className="text-cyan-200 font-medium">{livePlan.goal}</span>
+                              <span className="text-xs text-cyan-400/60">{livePlan.complexity}</span>
+                              {activeExecutionId && (
+                                <button onClick={handleStopExecution} disabled={stopping} className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-red-300 border border-red-500/40 rounded-lg hover:bg-red-500/10 disabled:opacity-50">
+                                  <Square className="w-3 h-3" /> {stopping ? 'Stopping...' : 'Stop'}
+                                </button>
+                              )}
                             </div>
-                          )}
+                            <p className="text-xs text-cyan-400/70 mb-3">{livePlan.analysis}</p>
+                            <ol className="space-y-1.5">
+                              {livePlan.steps.map((step, i) => (
+                                <li key={step.id} className="flex items-start gap-2 text-sm">
+                                  <span className={`w-4 flex-shrink-0 ${
+                                    step.status === 'completed' ? 'text-green-400' :
+                                    step.status === 'failed' ? 'text-red-400' :
+                                    step.status === 'in_progress' ? 'text-yellow-400' : 'text-cyan-400/50'
+                                  }`}>
+                                    {step.status === 'completed' ? '✓' : step.status === 'failed' ? '✗' : step.status === 'in_progress' ? '▸' : '○'}
+                                  </span>
+                                  <div className="flex-1">
+                                    <span className={step.status === 'skipped' ? 'text-cyan-400/50 line-through' : 'text-cyan-100'}>
+                                      {i + 1}. {step.description}
+                                    </span>
+                                    {step.retryCount > 0 && <span className="ml-2 text-xs text-yellow-400">({step.retryCount} retries)</span>}
+                                    {step.evaluation && <span className="ml-2 text-xs text-cyan-400/70">score {step.evaluation.score}</span>}
+                                    {step.activeTool && <div className="text-xs text-cyan-400 font-mono">running {step.activeTool}...</div>}
+                                  </div>
+                                </li>
+                              ))}
+                            </ol>
+                            {livePlan.previewCheck && (
+                              <p className={`mt-3 text-xs ${livePlan.previewCheck.skipped || livePlan.previewCheck.problems.length > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                                Preview check {livePlan.previewCheck.iteration}: {livePlan.previewCheck.skipped
+                                  ? 'skipped, page scripts cannot run on this server'
+                                  : livePlan.previewCheck.problems.length > 0
+                                    ? `${livePlan.previewCheck.problems.length} runtime problem(s) found, fixing...`
+                                    : 'no runtime errors'}
+                              </p>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                    {generating && (
-                      <div className="flex justify-start">
-                        <div className="bg-cyan-900/40 border border-cyan-800/50 px-4 py-3 rounded-2xl flex items-center gap-2">
-                          <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />
-                          <span className="text-cyan-300">Thinking...</span>
+                      )}
+                      {draftPlan && !generating && (
+                        <div className="flex justify-start">
+                          <div className="w-full max-w-[80%] bg-cyan-900/40 border border-cyan-500/40 px-4 py-3 rounded-2xl">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="text-cyan-200 font-medium">Review plan: {draftPlan.goal}</span>
+                              <span className="text-xs text-cyan-400/60">{draftPlan.complexity}</span>
+                            </div>
+                            <p className="text-xs text-cyan-400/70 mb-3">{draftPlan.analysis}</p>
+                            <ol className="space-y-2">
+                              {draftPlan.steps.map((step, i) => (
+                                <li key={step.id} className="flex items-start gap-2">
+                                  <span className="w-5 pt-1.5 text-sm text-cyan-400/60">{i + 1}.</span>
+                                  <div className="flex-1 space-y-1">
+                                    <input
+                                      type="text"
+                                      value={step.description}
+                                      onChange={(e) => updateDraftStep(i, { description: e.target.value, action: step.action || e.target.value })}
+                                      placeholder="What should this step do?"
+                                      className="w-full px-2 py-1 bg-cyan-950/50 border border-cyan-800/50 rounded text-sm text-white focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                                    />
+                                    <input
+                                      type="text"
+                                      value={step.expectedOutcome}
+                                      onChange={(e) => updateDraftStep(i, { expectedOutcome: e.target.value })}
+                                      placeholder="Expected outcome"
+                                      className="w-full px-2 py-1 bg-cyan-950/50 border border-cyan-800/50 rounded text-xs text-cyan-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                                    />
+                                  </div>
+                                  <div className="flex items-center pt-1">
+                                    <button onClick={() => moveDraftStep(i, -1)} disabled={i === 0} className="p-1 text-cyan-400 hover:text-white disabled:opacity-30"><ChevronUp className="w-4 h-4" /></button>
+                                    <button onClick={() => moveDraftStep(i, 1)} disabled={i === draftPlan.steps.length - 1} className="p-1 text-cyan-400 hover:text-white disabled:opacity-30"><ChevronDown className="w-4 h-4" /></button>
+                                    <button onClick={() => removeDraftStep(i)} className="p-1 text-red-400 hover:text-red-300"><Trash2 className="w-4 h-4" /></button>
+                                  </div>
+                                </li>
+                              ))}
+                            </ol>
+                            <button onClick={addDraftStep} className="mt-2 flex items-center gap-1 text-xs text-cyan-400 hover:text-white">
+                              <Plus className="w-3 h-3" /> Add step
+                            </button>
+                            {draftPlan.enhancements.length > 0 && (
+                              <div className="mt-3">
+                                <p className="text-xs text-cyan-400/70 mb-1">Proactive enhancements</p>
+                                {draftPlan.enhancements.map((enhancement, i) => (
+                                  <label key={i} className="flex items-center gap-2 text-sm text-cyan-100">
+                                    <input type="checkbox" checked={enhancement.enabled} onChange={() => toggleDraftEnhancement(i)} className="accent-cyan-500" />
+                                    {enhancement.text}
+                                  </label>
+                                ))}
+                              </div>
+                            )}
+                            <div className="mt-4 flex gap-2">
+                              <button
+                                onClick={handleApprovePlan}
+                                disabled={draftPlan.steps.length === 0 || draftPlan.steps.some(step => !step.description.trim())}
+                                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg disabled:opacity-50"
+                              >
+                                <Play className="w-4 h-4" /> Approve & run
+                              </button>
+                              <button onClick={handleDiscardPlan} className="px-3 py-1.5 text-sm text-cyan-300 hover:text-white">Discard</button>
+                            </div>
+                          </div>
                         </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <div className="p-4 border-t border-cyan-800/30">
+                  {pendingQuestion && !generating && (
+                    <div className="max-w-3xl mx-auto mb-3 px-4 py-3 bg-cyan-500/10 border border-cyan-500/40 rounded-xl text-sm">
+                      <div className="flex items-start gap-2">
+                        <HelpCircle className="w-4 h-4 mt-0.5 text-cyan-300 flex-shrink-0" />
+                        <span className="flex-1 text-cyan-100">{pendingQuestion.question}</span>
+                        <button onClick={handleCancelQuestion} className="text-xs text-cyan-400/60 hover:text-cyan-200">Cancel run</button>
                       </div>
-                    )}
+                      {pendingQuestion.options.length > 0 && (
+                        <div className="mt-2 ml-6 flex flex-wrap gap-2">
+                          {pendingQuestion.options.map(option => (
+                            <button
+                              key={option}
+                              onClick={() => answerPendingQuestion(option)}
+                              className="px-3 py-1 text-xs text-cyan-100 border border-cyan-500/40 rounded-lg hover:bg-cyan-500/20"
+                            >
+                              {option}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <p className="mt-2 ml-6 text-xs text-cyan-400/60">
+                        The agent is paused until you answer{pendingQuestion.options.length > 0 ? '. Pick an option or type your own answer below' : ' below'}.
+                      </p>
+                    </div>
+                  )}
+                  {resumableExecution && !generating && (
+                    <div className="max-w-3xl mx-auto mb-3 flex items-center gap-3 px-4 py-2 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-sm">
+                      <span className="flex-1 text-yellow-200 truncate">
+                        Agent run {resumableExecution.finalOutcome === 'cancelled' ? 'was stopped' : 'was interrupted'}: {resumableExecution.userGoal}
+                      </span>
+                      <button onClick={handleResumeExecution} className="flex items-center gap-1 px-3 py-1 text-cyan-200 border border-cyan-500/40 rounded-lg hover:bg-cyan-500/10">
+                        <Play className="w-3 h-3" /> Resume
+                      </button>
+                      <button onClick={() => setResumableExecution(null)} className="text-yellow-200/60 hover:text-yellow-200">Dismiss</button>
+                    </div>
+                  )}
+                  {pendingReview && !changeReview && !generating && (
+                    <div className="max-w-3xl mx-auto mb-3 flex items-center gap-3 px-4 py-2 bg-cyan-500/10 border border-cyan-500/40 rounded-xl text-sm">
+                      <span className="flex-1 text-cyan-100 truncate">
+                        Changes waiting for your review: {pendingReview.userGoal}
+                      </span>
+                      <button onClick={() => openChangeReview(pendingReview.executionId)} className="flex items-center gap-1 px-3 py-1 text-cyan-200 border border-cyan-500/40 rounded-lg hover:bg-cyan-500/10">
+                        <FileDiff className="w-3 h-3" /> Review
+                      </button>
+                    </div>
+                  )}
+                  <div className="max-w-3xl mx-auto mb-2 flex items-center gap-1 text-xs">
+                    {(['edit', 'ask'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setChatMode(mode)}
+                        disabled={generating}
+                        className={`px-3 py-1 rounded-lg border disabled:opacity-50 ${chatMode === mode ? 'border-cyan-500 text-white bg-cyan-500/10' : 'border-cyan-800/50 text-cyan-300 hover:text-white'}`}
+                      >
+                        {mode === 'edit' ? 'Edit' : 'Ask'}
+                      </button>
+                    ))}
+                    <span className="ml-2 text-cyan-400/60">
+                      {chatMode === 'ask' ? 'Answers questions about the code without changing any files' : 'Plans and makes changes to your project'}
+                    </span>
                   </div>
-                )}
-              </div>
-              <div className="p-4 border-t border-cyan-800/30">
-                <div className="max-w-3xl mx-auto flex gap-2">
-                  <input
-                    type="text"
-                    value={aiPrompt}
-                    onChange={(e) => setAiPrompt(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleAIChat()}
-                    disabled={generating}
-                    placeholder="Type a message..."
-                    className="flex-1 px-4 py-3 bg-cyan-900/30 border border-cyan-800/50 rounded-xl text-white placeholder-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
-                  />
-                  <button onClick={handleAIChat} disabled={generating || !aiPrompt.trim()} className="px-4 py-3 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-xl disabled:opacity-50">
-                    <Send className="w-5 h-5" />
-                  </button>
+                  <div className="max-w-3xl mx-auto flex gap-2">
+                    <input
+                      type="text"
+                      value={aiPrompt}
+                      onChange={(e) => setAiPrompt(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleAIChat()}
+                      disabled={generating}
+                      placeholder={chatMode === 'ask' ? 'Ask about the code, e.g. "where is the contact form handled?"' : pendingQuestion ? 'Type your answer...' : 'Type a message...'}
+                      className="flex-1 px-4 py-3 bg-cyan-900/30 border border-cyan-800/50 rounded-xl text-white placeholder-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+                    />
+                    <button onClick={handleAIChat} disabled={generating || !aiPrompt.trim()} className="px-4 py-3 bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-xl disabled:opacity-50">
+                      <Send className="w-5 h-5" />
+                    </button>
+                  </div>
+                  {chatMode === 'edit' && (
+                    <>
+                      <label className="max-w-3xl mx-auto mt-2 flex items-center gap-2 text-xs text-cyan-400/70">
+                        <input type="checkbox" checked={requirePlanApproval} onChange={(e) => setRequirePlanApproval(e.target.checked)} className="accent-cyan-500" />
+                        Review the plan before the agent starts editing
+                      </label>
+                      <label className="max-w-3xl mx-auto mt-1 flex items-center gap-2 text-xs text-cyan-400/70">
+                        <input type="checkbox" checked={selfHeal} onChange={(e) => setSelfHeal(e.target.checked)} className="accent-cyan-500" />
+                        Fix runtime errors found in the preview after the run
+                      </label>
+                      <label className="max-w-3xl mx-auto mt-1 flex items-center gap-2 text-xs text-cyan-400/70">
+                        <input type="checkbox" checked={autoApplyChanges} onChange={(e) => handleAutoApplyChange(e.target.checked)} className="accent-cyan-500" />
+                        Apply the agent&apos;s file changes automatically (turn off to review each file before it is saved)
+                      </label>
+                    </>
+                  )}
                 </div>
               </div>
+              {showInstructionsPanel && (
+                <aside className="w-96 border-l border-cyan-800/30 flex flex-col bg-slate-950/40">
+                  <div className="p-4 border-b border-cyan-800/30">
+                    <h3 className="text-sm font-semibold text-white">Project instructions</h3>
+                    <p className="text-xs text-cyan-400/70 mt-1">
+                      Conventions the agent follows when planning, writing and reviewing code in this project, e.g. &quot;use Tailwind, no jQuery, keep everything in /src&quot;.
+                    </p>
+                  </div>
+                  <div className="flex-1 flex flex-col p-4 gap-2 min-h-0">
+                    <textarea
+                      value={instructionsDraft}
+                      onChange={(e) => setInstructionsDraft(e.target.value)}
+                      maxLength={8000}
+                      placeholder={'- Use Tailwind for all styling\n- No jQuery\n- Keep source files in /src'}
+                      className="flex-1 min-h-48 px-3 py-2 bg-cyan-900/30 border border-cyan-800/50 rounded-lg text-sm font-mono text-white placeholder-cyan-500/50 focus:outline-none focus:ring-1 focus:ring-cyan-500 resize-none"
+                    />
+                    {instructionsError && <p className="text-xs text-yellow-300">{instructionsError}</p>}
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] text-cyan-500/70 flex-1">
+                        {instructions.version > 0 ? `Version ${instructions.version}${instructions.createdAt ? ` · saved ${new Date(instructions.createdAt).toLocaleString()}` : ''}` : 'Not set yet'}
+                      </span>
+                      <button
+                        onClick={saveInstructions}
+                        disabled={savingInstructions || instructionsDraft.trim() === instructions.content}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg disabled:opacity-50"
+                      >
+                        {savingInstructions ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Save
+                      </button>
+                    </div>
+                    {instructionVersions.length > 1 && (
+                      <div className="max-h-48 overflow-y-auto">
+                        <p className="text-xs uppercase tracking-wide text-cyan-400/60 mb-1">Earlier versions</p>
+                        <ul className="space-y-1">
+                          {instructionVersions.filter(entry => entry.version !== instructions.version).map(entry => (
+                            <li key={entry.version} className="flex items-center gap-2 text-xs text-cyan-200">
+                              <span className="flex-1 truncate">v{entry.version} · {entry.content.split('\n')[0] || '(empty)'}</span>
+                              <button onClick={() => setInstructionsDraft(entry.content)} className="text-cyan-400 hover:text-white" title="Load into the editor">
+                                <RotateCcw className="w-3 h-3" />
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                </aside>
+              )}
+              {showMemoryPanel && (
+                <aside className="w-80 border-l border-cyan-800/30 flex flex-col bg-slate-950/40">
+                  <div className="p-4 border-b border-cyan-800/30">
+                    <h3 className="text-sm font-semibold text-white mb-2">What the agent knows</h3>
+                    <input
+                      type="text"
+                      value={memoryQuery}
+                      onChange={(e) => setMemoryQuery(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && loadMemoryEntries()}
+                      placeholder="Search memories..."
+                      className="w-full px-3 py-1.5 bg-cyan-900/30 border border-cyan-800/50 rounded-lg text-sm text-white placeholder-cyan-500/50 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                    />
+                  </div>
+                  <div className="p-4 border-b border-cyan-800/30">
+                    <textarea
+                      value={newInstruction}
+                      onChange={(e) => setNewInstruction(e.target.value)}
+                      rows={2}
+                      placeholder="Add a standing instruction, e.g. &quot;Always use semantic HTML&quot;"
+                      className="w-full px-3 py-1.5 bg-cyan-900/30 border border-cyan-800/50 rounded-lg text-sm text-white placeholder-cyan-500/50 focus:outline-none focus:ring-1 focus:ring-cyan-500 resize-none"
+                    />
+                    <button onClick={addInstruction} disabled={!newInstruction.trim()} className="mt-2 flex items-center gap-1 text-xs text-cyan-300 hover:text-white disabled:opacity-50">
+                      <Plus className="w-3 h-3" /> Add pinned instruction
+                    </button>
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <div>
+                      <p className="text-xs uppercase tracking-wide text-cyan-400/60 mb-2">Memories ({memoryEntries.memories.length})</p>
+                      <ul className="space-y-2">
+                        {memoryEntries.memories.map(memory => (
+                          <li key={memory.id} className="p-2 bg-cyan-900/20 border border-cyan-800/40 rounded-lg">
+                            <div className="flex items-center gap-1 mb-1">
+                              <span className="text-[10px] font-mono text-cyan-400/70 flex-1">{memory.memoryType}</span>
+                              <button onClick={() => updateMemoryEntry('memory', memory.id, { pinned: !memory.pinned })} title={memory.pinned ? 'Unpin' : 'Pin'} className={memory.pinned ? 'text-yellow-400' : 'text-cyan-500/50 hover:text-cyan-300'}>
+                                <Pin className="w-3 h-3" />
+                              </button>
+                              <button onClick={() => setEditingMemory({ id: memory.id, content: memory.content })} className="text-cyan-500/50 hover:text-cyan-300"><Pencil className="w-3 h-3" /></button>
+                              <button onClick={() => deleteMemoryEntry('memory', memory.id)} className="text-red-400/60 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>
+                            </div>
+                            {editingMemory?.id === memory.id ? (
+                              <div>
+                                <textarea
+                                  value={editingMemory.content}
+                                  onChange={(e) => setEditingMemory({ ...editingMemory, content: e.target.value })}
+                                  rows={4}
+                                  className="w-full px-2 py-1 bg-cyan-950/50 border border-cyan-800/50 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                                />
+                                <div className="flex gap-2 mt-1">
+                                  <button onClick={saveMemoryEdit} className="text-xs text-cyan-300 hover:text-white">Save</button>
+                                  <button onClick={() => setEditingMemory(null)} className="text-xs text-cyan-500/60 hover:text-cyan-300">Cancel</button>
+                                </div>
+                              </div>
+                            ) : (
+                              <p className="text-xs text-cyan-100 whitespace-pre-wrap">{memory.content}</p>
+                            )}
+                            <p className="text-[10px] text-cyan-500/50 mt-1">used {memory.accessCount}×</p>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-wide text-cyan-400/60 mb-2">Learnings ({memoryEntries.learnings.length})</p>
+                      <ul className="space-y-2">
+                        {memoryEntries.learnings.map(learning => (
+                          <li key={learning.id} className="p-2 bg-cyan-900/20 border border-cyan-800/40 rounded-lg">
+                            <div className="flex items-center gap-1 mb-1">
+                              <span className="text-[10px] font-mono text-cyan-400/70 flex-1">{learning.learningType}</span>
+                              <button onClick={() => updateMemoryEntry('learning', learning.id, { pinned: !learning.pinned })} title={learning.pinned ? 'Unpin' : 'Pin'} className={learning.pinned ? 'text-yellow-400' : 'text-cyan-500/50 hover:text-cyan-300'}>
+                                <Pin className="w-3 h-3" />
+                              </button>
+                              <button onClick={() => deleteMemoryEntry('learning', learning.id)} className="text-red-400/60 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>
+                            </div>
+                            <p className="text-xs text-cyan-200">{learning.pattern}</p>
+                            <p className="text-xs text-cyan-100/80">{learning.insight}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </aside>
+              )}
+              {showHistoryPanel && (
+                <aside className="w-96 border-l border-cyan-800/30 flex flex-col bg-slate-950/40">
+                  <div className="p-4 border-b border-cyan-800/30 flex items-center gap-2">
+                    {selectedExecution && (
+                      <button onClick={() => setSelectedExecution(null)} className="text-cyan-400 hover:text-white"><ArrowLeft className="w-4 h-4" /></button>
+                    )}
+                    <h3 className="text-sm font-semibold text-white flex-1">{selectedExecution ? 'Run details' : 'Agent runs'}</h3>
+                    <button onClick={loadExecutionHistory} className="text-cyan-500/60 hover:text-cyan-300"><RefreshCw className="w-3 h-3" /></button>
+                  </div>
+                  {!selectedExecution ? (
+                    <ul className="flex-1 overflow-y-auto p-4 space-y-2">
+                      {executionHistory.length === 0 && <li className="text-xs text-cyan-400/60">No agent runs yet.</li>}
+                      {executionHistory.map(execution => (
+                        <li key={execution.id}>
+                          <button onClick={() => openExecution(execution.id)} className="w-full text-left p-2 bg-cyan-900/20 border border-cyan-800/40 rounded-lg hover:border-cyan-600">
+                            <p className="text-xs text-cyan-100 line-clamp-2">{execution.userGoal}</p>
+                            <p className="text-[10px] text-cyan-500/70 mt-1">
+                              {new Date(execution.startedAt).toLocaleString()} · {execution.finalOutcome} · {execution.completedSteps}/{execution.stepCount} steps
+                              {execution.failedSteps > 0 && ` · ${execution.failedSteps} failed`}
+                              {execution.completeness !== null && ` · ${execution.completeness}%`} · {formatDuration(execution.durationMs)}
+                              {execution.undoneAt && ' · undone'}
+                              {execution.reviewPending && ' · awaiting review'}
+                            </p>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                      <div>
+                        <p className="text-sm text-cyan-100">{selectedExecution.goal}</p>
+                        <p className="text-[10px] text-cyan-500/70 mt-1">
+                          {selectedExecution.finalOutcome} · {formatDuration(selectedExecution.durationMs)}
+                          {selectedExecution.evaluation?.completeness !== undefined && ` · ${selectedExecution.evaluation.completeness}% complete`}
+                        </p>
+                        <button
+                          onClick={() => handleRerunExecution(selectedExecution.userGoal)}
+                          disabled={generating}
+                          className="mt-2 flex items-center gap-1 text-xs text-cyan-300 hover:text-white disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3 h-3" /> Run this goal again on the current files
+                        </button>
+                        {selectedExecution.undoable && (
+                          <button
+                            onClick={() => openUndoPreview(selectedExecution.id)}
+                            disabled={generating}
+                            className="mt-1 flex items-center gap-1 text-xs text-yellow-300 hover:text-white disabled:opacity-50"
+                          >
+                            <Undo2 className="w-3 h-3" /> Undo this run
+                          </button>
+                        )}
+                        {selectedExecution.reviewPending && (
+                          <button
+                            onClick={() => openChangeReview(selectedExecution.id)}
+                            disabled={generating}
+                            className="mt-1 flex items-center gap-1 text-xs text-cyan-300 hover:text-white disabled:opacity-50"
+                          >
+                            <FileDiff className="w-3 h-3" /> Review the proposed changes
+                          </button>
+                        )}
+                        {selectedExecution.appliedInstructions && (
+                          <details className="mt-2 text-[11px]">
+                            <summary className="cursor-pointer text-cyan-400/80">Project instructions v{selectedExecution.appliedInstructions.version} applied</summary>
+                            <pre className="mt-1 p-1 bg-slate-950/60 rounded text-cyan-100/80 whitespace-pre-wrap break-words max-h-40 overflow-y-auto">{selectedExecution.appliedInstructions.content}</pre>
+                          </details>
+                        )}
+                        {selectedExecution.clarifications.length > 0 && (
+                          <details className="mt-2 text-[11px]">
+                            <summary className="cursor-pointer text-cyan-400/80">{selectedExecution.clarifications.length} question(s) answered during the run</summary>
+                            <ul className="mt-1 space-y-1">
+                              {selectedExecution.clarifications.map((clarification, i) => (
+                                <li key={i} className="p-1 bg-slate-950/60 rounded">
+                                  <p className="text-cyan-300">{clarification.question}</p>
+                                  <p className="text-cyan-100/80">→ {clarification.answer}</p>
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+                        {selectedExecution.planningTranscript.length > 0 && (
+                          <details className="mt-2 text-[11px]">
+                            <summary className="cursor-pointer text-cyan-400/80">Planner transcript</summary>
+                            <pre className="mt-1 p-1 bg-slate-950/60 rounded text-cyan-100/80 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{selectedExecution.planningTranscript.map(formatTranscriptEntry).join('\n')}</pre>
+                          </details>
+                        )}
+                        {selectedExecution.undoneAt && (
+                          <p className="mt-1 text-[10px] text-yellow-400/80">Undone {new Date(selectedExecution.undoneAt).toLocaleString()}</p>
+                        )}
+                      </div>
+                      <ol className="space-y-2">
+                        {[...selectedExecution.steps, ...selectedExecution.healing.map(h => ({ ...h, retryCount: 0, evaluation: null, attempts: [], startedAt: null, finishedAt: null, transcripts: [] }))].map((step, i) => (
+                          <li key={step.id} className="p-2 bg-cyan-900/20 border border-cyan-800/40 rounded-lg">
+                            <div className="flex items-start gap-2 text-xs">
+                              <span className={step.status === 'completed' ? 'text-green-400' : step.status === 'failed' ? 'text-red-400' : 'text-cyan-400/50'}>
+                                {step.status === 'completed' ? '✓' : step.status === 'failed' ? '✗' : '○'}
+                              </span>
+                              <div className="flex-1">
+                                <p className={step.status === 'skipped' ? 'text-cyan-400/50 line-through' : 'text-cyan-100'}>{i + 1}. {step.description}</p>
+                                <p className="text-[10px] text-cyan-500/70">
+                                  {step.status}
+                                  {step.evaluation && ` · score ${step.evaluation.score}`}
+                                  {step.retryCount > 0 && ` · ${step.retryCount} retries`}
+                                  {step.startedAt && step.finishedAt && ` · ${formatDuration(new Date(step.finishedAt).getTime() - new Date(step.startedAt).getTime())}`}
+                                </p>
+                              </div>
+                            </div>
+                            {step.attempts.length > 1 && (
+                              <ul className="mt-1 ml-5 space-y-0.5">
+                                {step.attempts.map(attempt => (
+                                  <li key={attempt.attempt} className={`text-[10px] ${attempt.success ? 'text-green-400/80' : 'text-yellow-400/80'}`}>
+                                    Attempt {attempt.attempt}: score {attempt.score}{attempt.issues.length > 0 && ` · ${attempt.issues[0]}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {step.toolCalls.length > 0 && (
+                              <ul className="mt-1 ml-5 space-y-1">
+                                {step.toolCalls.map((call, j) => (
+                                  <li key={j}>
+                                    <details className="text-[11px]">
+                                      <summary className={`cursor-pointer font-mono ${call.success ? 'text-cyan-300' : 'text-red-300'}`}>
+                                        {call.success ? '✓' : '✗'} {call.tool}{step.attempts.length > 1 && ` (attempt ${call.attempt})`}
+                                      </summary>
+                                      <p className="mt-1 text-cyan-500/70">Arguments</p>
+                                      <pre className="p-1 bg-slate-950/60 rounded text-cyan-100/80 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{JSON.stringify(call.args, null, 2)}</pre>
+                                      <p className="mt-1 text-cyan-500/70">Result</p>
+                                      <pre className="p-1 bg-slate-950/60 rounded text-cyan-100/80 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{JSON.stringify(call.result, null, 2)}</pre>
+                                    </details>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {step.transcripts.length > 0 && (
+                              <details className="mt-1 ml-5 text-[11px]">
+                                <summary className="cursor-pointer text-cyan-400/80">Role transcript</summary>
+                                {step.transcripts.map(transcript => (
+                                  <div key={transcript.attempt}>
+                                    {step.transcripts.length > 1 && <p className="mt-1 text-cyan-500/70">Attempt {transcript.attempt}</p>}
+                                    <pre className="mt-1 p-1 bg-slate-950/60 rounded text-cyan-100/80 whitespace-pre-wrap break-all max-h-60 overflow-y-auto">{transcript.entries.map(formatTranscriptEntry).join('\n')}</pre>
+                                  </div>
+                                ))}
+                              </details>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                      {selectedExecution.evaluation?.gaps && selectedExecution.evaluation.gaps.length > 0 && (
+                        <div>
+                          <p className="text-xs uppercase tracking-wide text-cyan-400/60 mb-1">Gaps</p>
+                          <ul className="text-xs text-cyan-100/80 list-disc ml-4">
+                            {selectedExecution.evaluation.gaps.map((gap, i) => <li key={i}>{gap}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </aside>
+              )}
             </div>
           )}
         </div>
       </div>
+      {undoPreview && (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6">
+          <div className="w-full max-w-6xl h-[85vh] flex flex-col bg-slate-950 border border-cyan-800/50 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-cyan-800/30">
+              <h3 className="text-sm font-semibold text-white">Undo agent run</h3>
+              <p className="text-xs text-cyan-400/70 mt-1">
+                Restores what the run changed to how it was on {new Date(undoPreview.snapshotTakenAt).toLocaleString()}. Files the run did not touch are left alone.
+              </p>
+              {undoPreview.editedSince.length > 0 && (
+                <div className="mt-3 p-2 flex items-start gap-2 bg-yellow-900/20 border border-yellow-700/50 rounded-lg text-xs text-yellow-200">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <div className="flex-1">
+                    <p>You changed {undoPreview.editedSince.join(', ')} after this run. Those edits are kept unless you choose to overwrite them.</p>
+                    <label className="mt-1 flex items-center gap-2">
+                      <input type="checkbox" checked={overwriteEdited} onChange={(e) => setOverwriteEdited(e.target.checked)} />
+                      Overwrite my later edits too
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="flex-1 flex min-h-0">
+              <ul className="w-72 border-r border-cyan-800/30 overflow-y-auto p-2 space-y-1">
+                {undoPreview.files.length === 0 && <li className="text-xs text-cyan-400/60 p-2">No file changes to revert.</li>}
+                {undoPreview.files.map(file => (
+                  <li key={file.path}>
+                    <button
+                      onClick={() => setUndoDiffPath(file.path)}
+                      className={`w-full text-left px-2 py-1 rounded text-xs font-mono flex items-center gap-2 ${undoDiffPath === file.path ? 'bg-cyan-900/50 text-white' : 'text-cyan-200 hover:bg-cyan-900/30'}`}
+                    >
+                      <span className={file.change === 'added' ? 'text-red-400' : file.change === 'deleted' ? 'text-green-400' : 'text-yellow-400'}>
+                        {file.change === 'added' ? 'remove' : file.change === 'deleted' ? 'restore' : 'revert'}
+                      </span>
+                      <span className="flex-1 truncate">{file.path}</span>
+                      {file.editedSince && <AlertTriangle className="w-3 h-3 text-yellow-400" />}
+                    </button>
+                  </li>
+                ))}
+                {undoPreview.settings.map(setting => (
+                  <li key={setting.section} className="px-2 py-1 text-xs text-cyan-200 flex items-center gap-2">
+                    <span className="text-yellow-400">revert</span>
+                    <span className="flex-1">{setting.section}</span>
+                    {setting.editedSince && <AlertTriangle className="w-3 h-3 text-yellow-400" />}
+                  </li>
+                ))}
+                {undoPreview.removedPackages.map(name => (
+                  <li key={name} className="px-2 py-1 text-xs text-cyan-200 flex items-center gap-2">
+                    <span className="text-red-400">remove</span>
+                    <span className="flex-1 font-mono">{name}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex-1 flex flex-col min-w-0">
+                {(() => {
+                  const file = undoPreview.files.find(entry => entry.path === undoDiffPath);
+                  if (!file) return <div className="flex-1 flex items-center justify-center text-xs text-cyan-400/60">Select a file to see its changes</div>;
+                  const isImage = (content: string | null) => Boolean(content?.startsWith('data:image'));
+                  return (
+                    <>
+                      <div className="h-8 px-4 flex items-center text-xs font-mono bg-slate-950 border-b border-cyan-800/30 text-cyan-400">
+                        <span className="flex-1">{file.path}: current ← after undo</span>
+                        {file.editedSince && !overwriteEdited && <span className="text-yellow-400">edited since the run, will be kept</span>}
+                      </div>
+                      <div className="flex-1">
+                        <MonacoDiffEditor
+                          height="100%"
+                          language={getMonacoLanguage(file.path)}
+                          original={isImage(file.current) ? '[image]' : file.current ?? ''}
+                          modified={isImage(file.restored) ? '[image]' : file.restored ?? ''}
+                          theme="vs-dark"
+                          options={{ readOnly: true, automaticLayout: true, renderSideBySide: true, minimap: { enabled: false }, fontSize: 13 }}
+                        />
+                      </div>
+                    </>
+                  );
+                })()}
+              </div>
+            </div>
+            <div className="p-4 border-t border-cyan-800/30 flex justify-end gap-2">
+              <button onClick={() => setUndoPreview(null)} disabled={undoing} className="px-3 py-1.5 text-sm text-cyan-300 hover:text-white disabled:opacity-50">Cancel</button>
+              <button
+                onClick={handleUndoExecution}
+                disabled={undoing}
+                className="px-3 py-1.5 text-sm bg-yellow-600 hover:bg-yellow-500 text-white rounded-lg flex items-center gap-2 disabled:opacity-50"
+              >
+                {undoing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />} Undo run
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {changeReview && (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6">
+          <div className="w-full max-w-6xl h-[85vh] flex flex-col bg-slate-950 border border-cyan-800/50 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-cyan-800/30">
+              <h3 className="text-sm font-semibold text-white">Review agent changes</h3>
+              <p className="text-xs text-cyan-400/70 mt-1">
+                Nothing has been saved yet. Untick the files or the individual changes you don&apos;t want; only the ticked ones are written to the project.
+              </p>
+            </div>
+            <div className="flex-1 flex min-h-0">
+              <ul className="w-72 border-r border-cyan-800/30 overflow-y-auto p-2 space-y-1">
+                {changeReview.files.length === 0 && <li className="text-xs text-cyan-400/60 p-2">The run did not change any files.</li>}
+                {changeReview.files.map(file => (
+                  <li key={file.path} className={`flex items-center gap-2 px-2 py-1 rounded ${reviewDiffPath === file.path ? 'bg-cyan-900/50' : 'hover:bg-cyan-900/30'}`}>
+                    <input type="checkbox" checked={file.accepted} onChange={() => toggleReviewFile(file.path)} className="accent-cyan-500" />
+                    <button onClick={() => setReviewDiffPath(file.path)} className="flex-1 min-w-0 text-left text-xs font-mono flex items-center gap-2">
+                      <span className={file.change === 'added' ? 'text-green-400' : file.change === 'deleted' ? 'text-red-400' : 'text-yellow-400'}>
+                        {file.change === 'added' ? 'new' : file.change === 'deleted' ? 'delete' : 'edit'}
+                      </span>
+                      <span className={`flex-1 truncate ${file.accepted ? 'text-cyan-100' : 'text-cyan-400/50 line-through'}`}>{file.path}</span>
+                      {file.hunks.length > 1 && <span className="text-[10px] text-cyan-500/70">{file.acceptedHunks.length}/{file.hunks.length}</span>}
+                    </button>
+                  </li>
+                ))}
+                {(changeReview.packages.length > 0 || changeReview.settingsChanges.length > 0) && (
+                  <li className="mt-2 pt-2 border-t border-cyan-800/30 px-2 text-xs text-cyan-200">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={changeReview.includeSettings}
+                        onChange={(e) => setChangeReview(prev => prev && { ...prev, includeSettings: e.target.checked })}
+                        className="accent-cyan-500"
+                      />
+                      Packages and settings
+                    </label>
+                    <ul className="mt-1 ml-5 space-y-0.5 text-[11px] text-cyan-300/80">
+                      {changeReview.packages.map(pkg => <li key={pkg.name} className="font-mono">+ {pkg.name}@{pkg.version}</li>)}
+                      {changeReview.settingsChanges.map((change, i) => <li key={i}>{formatSettingChange(change)}</li>)}
+                    </ul>
+                  </li>
+                )}
+              </ul>
+              <div className="flex-1 flex flex-col min-w-0">
+                {(() => {
+                  const file = changeReview.files.find(entry => entry.path === reviewDiffPath);
+                  if (!file) return <div className="flex-1 flex items-center justify-center text-xs text-cyan-400/60">Select a file to see its changes</div>;
+                  const isImage = (content: string | null) => Boolean(content?.startsWith('data:image'));
+                  return (
+                    <>
+                      <div className="h-8 px-4 flex items-center text-xs font-mono bg-slate-950 border-b border-cyan-800/30 text-cyan-400">
+                        <span className="flex-1">{file.path}: current → proposed</span>
+                        {!file.accepted && <span className="text-yellow-400">rejected, will be left as it is</span>}
+                      </div>
+                      <div className="flex-1">
+                        <MonacoDiffEditor
+                          height="100%"
+                          language={getMonacoLanguage(file.path)}
+                          original={isImage(file.before) ? '[image]' : file.before ?? ''}
+                          modified={isImage(file.after) ? '[image]' : file.after ?? ''}
+                          theme="vs-dark"
+                          options={{ readOnly: true, automaticLayout: true, renderSideBySide: true, minimap: { enabled: false }, fontSize: 13 }}
+                        />
+                      </div>
+                      {file.hunks.length > 1 && !isImage(file.after) && (
+                        <ul className="max-h-40 overflow-y-auto border-t border-cyan-800/30 p-2 space-y-1">
+                          {file.hunks.map((hunk, i) => (
+                            <li key={i}>
+                              <label className="flex items-center gap-2 text-xs text-cyan-200">
+                                <input type="checkbox" checked={file.acceptedHunks.includes(i)} onChange={() => toggleReviewHunk(file.path, i)} className="accent-cyan-500" />
+                                <span className="font-mono text-cyan-400/80">
+                                  Line {hunk.originalLines.length > 0 ? hunk.originalStart : hunk.modifiedStart}: <span className="text-red-400">−{hunk.originalLines.length}</span> <span className="text-green-400">+{hunk.modifiedLines.length}</span>
+                                </span>
+                                <span className="flex-1 truncate font-mono text-cyan-100/70">{(hunk.modifiedLines[0] ?? hunk.originalLines[0] ?? '').trim()}</span>
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  );
+                })()}
+              </div>
+            </div>
+            <div className="p-4 border-t border-cyan-800/30 flex justify-end gap-2">
+              <button onClick={() => setChangeReview(null)} disabled={applyingReview} className="px-3 py-1.5 text-sm text-cyan-300 hover:text-white disabled:opacity-50 mr-auto">Decide later</button>
+              <button
+                onClick={() => handleApplyReview(true)}
+                disabled={applyingReview}
+                className="px-3 py-1.5 text-sm text-red-300 hover:text-white border border-red-500/40 rounded-lg disabled:opacity-50"
+              >
+                Reject all
+              </button>
+              <button
+                onClick={() => handleApplyReview(false)}
+                disabled={applyingReview}
+                className="px-3 py-1.5 text-sm bg-gradient-to-r from-cyan-500 to-teal-500 text-white rounded-lg flex items-center gap-2 disabled:opacity-50"
+              >
+                {applyingReview ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Apply selected
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -28,25 +28,17 @@ export default function NewProjectPage() {
       if (useAI) {
         setGenerationStatus('Generating website with GPT-5.1 Codex Max...');
         
+        // The route saves the generated files, pages and site config to the project itself.
         const aiRes = await fetch('/api/ai/generate', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ prompt: description, projectId: project.id, mode: 'generate' }),
         });
 
-        if (aiRes.ok) {
-          const aiData = await aiRes.json();
-          
-          if (aiData.generated) {
-            await fetch(`/api/projects/${project.id}`, {
-              method: 'PATCH',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                pages: JSON.stringify(aiData.generated.pages),
-                siteConfig: JSON.stringify(aiData.generated.siteConfig),
-              }),
-            });
-          }
+        if (!aiRes.ok) {
+          const aiError = await aiRes.json().catch(() => ({}));
+          const reason = typeof aiError.error === 'string' ? aiError.error : 'Unknown error';
+          alert(`The website could not be generated (${reason}). The project was created empty; you can ask the agent to build it from the editor.`);
         }
       }
 
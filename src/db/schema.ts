@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, varchar, date, boolean, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, varchar, date, boolean, jsonb, integer, doublePrecision, index, uniqueIndex } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -8,6 +8,9 @@ export const users = pgTable('users', {
   fullName: varchar('full_name', { length: 255 }).notNull(),
   username: varchar('username', { length: 50 }).notNull().unique(),
   birthDate: date('birth_date').notNull(),
+  dailyTokenQuota: integer('daily_token_quota'),
+  monthlyTokenQuota: integer('monthly_token_quota'),
+  autoApplyAgentChanges: boolean('auto_apply_agent_changes').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -27,6 +30,7 @@ export const projects = pgTable('projects', {
   deploymentConfig: jsonb('deployment_config'),
   integrations: jsonb('integrations'),
   terminalHistory: jsonb('terminal_history'),
+  contextSummary: jsonb('context_summary'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -43,6 +47,8 @@ export const deployments = pgTable('deployments', {
   buildLog: text('build_log'),
   deployedFiles: jsonb('deployed_files'),
   version: varchar('version', { length: 20 }).default('1'),
+  kind: varchar('kind', { length: 20 }).default('production').notNull(),
+  expiresAt: timestamp('expires_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -63,10 +69,21 @@ export const agentMemory = pgTable('agent_memory', {
   content: text('content').notNull(),
   metadata: jsonb('metadata'),
   importance: varchar('importance', { length: 20 }).default('medium'),
+  pinned: boolean('pinned').default(false).notNull(),
+  embedding: jsonb('embedding'),
+  accessCount: integer('access_count').default(0).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   lastAccessedAt: timestamp('last_accessed_at').defaultNow(),
 });
 
+export const projectInstructions = pgTable('project_instructions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id').references(() => projects.id).notNull(),
+  version: integer('version').notNull(),
+  content: text('content').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, table => [uniqueIndex('project_instructions_project_version_idx').on(table.projectId, table.version)]);
+
 export const agentExecutions = pgTable('agent_executions', {
   id: uuid('id').defaultRandom().primaryKey(),
   projectId: uuid('project_id').references(() => projects.id).notNull(),
@@ -77,6 +94,19 @@ export const agentExecutions = pgTable('agent_executions', {
   finalOutcome: varchar('final_outcome', { length: 50 }),
   lessonsLearned: jsonb('lessons_learned'),
   totalIterations: varchar('total_iterations', { length: 10 }),
+  checkpoint: jsonb('checkpoint'),
+  snapshot: jsonb('snapshot'),
+  resultSnapshot: jsonb('result_snapshot'),
+  undoneAt: timestamp('undone_at'),
+  proposedChanges: jsonb('proposed_changes'),
+  reviewedAt: timestamp('reviewed_at'),
+  instructionsVersion: integer('instructions_version'),
+  pendingQuestion: jsonb('pending_question'),
+  clarifications: jsonb('clarifications'),
+  roleTranscripts: jsonb('role_transcripts'),
+  cancelRequestedAt: timestamp('cancel_requested_at'),
+  runId: uuid('run_id'),
+  lastHeartbeatAt: timestamp('last_heartbeat_at').defaultNow().notNull(),
   startedAt: timestamp('started_at').defaultNow().notNull(),
   completedAt: timestamp('completed_at'),
 });
@@ -90,9 +120,28 @@ export const agentLearnings = pgTable('agent_learnings', {
   insight: text('insight').notNull(),
   successRate: varchar('success_rate', { length: 20 }),
   applicableContexts: jsonb('applicable_contexts'),
+  importance: varchar('importance', { length: 20 }).default('medium'),
+  pinned: boolean('pinned').default(false).notNull(),
+  embedding: jsonb('embedding'),
+  accessCount: integer('access_count').default(0).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
+  lastAccessedAt: timestamp('last_accessed_at').defaultNow(),
 });
 
+export const aiUsage = pgTable('ai_usage', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  projectId: uuid('project_id').references(() => projects.id),
+  executionId: uuid('execution_id').references(() => agentExecutions.id),
+  operation: varchar('operation', { length: 50 }).notNull(),
+  model: varchar('model', { length: 100 }).notNull(),
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  images: integer('images').default(0).notNull(),
+  estimatedCostUsd: doublePrecision('estimated_cost_usd').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, table => [index('ai_usage_user_created_idx').on(table.userId, table.createdAt)]);
+
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Project = typeof projects.$inferSelect;
@@ -0,0 +1,116 @@
+import { and, eq, lt } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db';
+import { agentExecutions } from '@/db/schema';
+
+export const STALE_EXECUTION_MS = 10 * 60 * 1000;
+
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export const resumableOutcomes = new Set(['cancelled', 'abandoned']);
+
+export const MAX_CLARIFICATIONS = 3;
+
+export const clarifyingQuestionSchema = z.object({
+  question: z.string().trim().min(1).max(500),
+  options: z.array(z.string().trim().min(1).max(200)).max(6).nullish().transform(options => options ?? []),
+});
+
+export type ClarifyingQuestion = z.infer<typeof clarifyingQuestionSchema>;
+
+// A run in `awaiting_input` keeps its question here until the user answers; `stepId` is null when the
+// planner asked before any step ran.
+export interface PendingQuestion extends ClarifyingQuestion {
+  stepId: string | null;
+  askedAt: string;
+}
+
+export interface Clarification extends PendingQuestion {
+  answer: string;
+  answeredAt: string;
+}
+
+export function clarificationsPromptSection(clarifications: Clarification[]): string {
+  if (clarifications.length === 0) return '';
+  return `\n\n## ANSWERS FROM THE USER\n${clarifications.map(c => `Q: ${c.question}\nA: ${c.answer}`).join('\n\n')}`;
+}
+
+export function isStale(execution: { finalOutcome: string | null; lastHeartbeatAt: Date }): boolean {
+  return execution.finalOutcome === 'in_progress'
+    && Date.now() - execution.lastHeartbeatAt.getTime() > STALE_EXECUTION_MS;
+}
+
+export async function markAbandonedExecutions(projectId: string): Promise<string[]> {
+  const abandoned = await db.update(agentExecutions)
+    .set({ finalOutcome: 'abandoned', completedAt: new Date() })
+    .where(and(
+      eq(agentExecutions.projectId, projectId),
+      eq(agentExecutions.finalOutcome, 'in_progress'),
+      lt(agentExecutions.lastHeartbeatAt, new Date(Date.now() - STALE_EXECUTION_MS))
+    ))
+    .returning({ id: agentExecutions.id });
+  return abandoned.map(execution => execution.id);
+}
+
+export interface StoredToolResult {
+  tool: string;
+  args?: Record<string, unknown>;
+  success: boolean;
+  result: unknown;
+  stepId: string;
+  attempt?: number;
+}
+
+export interface StoredPlanStep {
+  id: string;
+  description: string;
+  dependencies: string[];
+  status: string;
+  retryCount: number;
+  toolResults: StoredToolResult[];
+  evaluation?: { success: boolean; score: number; issues: string[] };
+  attempts?: { attempt: number; startedAt: string; finishedAt: string; success: boolean; score: number; issues: string[] }[];
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface StoredPlan {
+  goal: string;
+  analysis: string;
+  complexity: string;
+  steps: StoredPlanStep[];
+  proactiveEnhancements: string[];
+}
+
+const MAX_PAYLOAD_STRING_CHARS = 2_000;
+
+// Tool arguments and results carry whole files and base64 images; the history view only needs a readable excerpt.
+export function trimToolPayload(value: unknown): unknown {
+  if (typeof value === 'string') {
+    if (value.startsWith('data:image') || value.length > 10_000 && /^[A-Za-z0-9+/=]+$/.test(value.slice(0, 200))) {
+      return `[binary data, ${value.length} chars]`;
+    }
+    return value.length > MAX_PAYLOAD_STRING_CHARS
+      ? `${value.slice(0, MAX_PAYLOAD_STRING_CHARS)}… [${value.length - MAX_PAYLOAD_STRING_CHARS} more chars]`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(trimToolPayload);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, trimToolPayload(entry)]));
+  }
+  return value;
+}
+
+export function toolCallView(result: StoredToolResult) {
+  return {
+    tool: result.tool,
+    args: trimToolPayload(result.args ?? null),
+    success: result.success,
+    result: trimToolPayload(result.result),
+    attempt: result.attempt ?? 1,
+  };
+}
+
+export function executionDurationMs(execution: { startedAt: Date; completedAt: Date | null; lastHeartbeatAt: Date }): number {
+  return (execution.completedAt ?? execution.lastHeartbeatAt).getTime() - execution.startedAt.getTime();
+}
@@ -0,0 +1,225 @@
+import { db } from '@/db';
+import { agentMemory, agentLearnings } from '@/db/schema';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import { LLMProvider } from '@/lib/llm-provider';
+import { rankEntries } from '@/lib/retrieval';
+
+const CANDIDATE_LIMIT = 200;
+const BACKFILL_LIMIT = 50;
+const HIGH_IMPORTANCE_ACCESS_COUNT = 5;
+
+export const memoryFields = {
+  id: agentMemory.id,
+  memoryType: agentMemory.memoryType,
+  category: agentMemory.category,
+  content: agentMemory.content,
+  metadata: agentMemory.metadata,
+  importance: agentMemory.importance,
+  pinned: agentMemory.pinned,
+  accessCount: agentMemory.accessCount,
+  createdAt: agentMemory.createdAt,
+  lastAccessedAt: agentMemory.lastAccessedAt,
+};
+
+export const learningFields = {
+  id: agentLearnings.id,
+  executionId: agentLearnings.executionId,
+  learningType: agentLearnings.learningType,
+  pattern: agentLearnings.pattern,
+  insight: agentLearnings.insight,
+  importance: agentLearnings.importance,
+  pinned: agentLearnings.pinned,
+  accessCount: agentLearnings.accessCount,
+  createdAt: agentLearnings.createdAt,
+  lastAccessedAt: agentLearnings.lastAccessedAt,
+};
+
+export function memoryText(memory: { memoryType: string; category: string | null; content: string }): string {
+  return `${memory.memoryType} ${memory.category ?? ''} ${memory.content}`;
+}
+
+export function learningText(learning: { learningType: string; pattern: string; insight: string }): string {
+  return `${learning.learningType} ${learning.pattern} ${learning.insight}`;
+}
+
+export interface RetrievalContext {
+  query: string;
+  queryEmbedding: number[] | null;
+  provider: LLMProvider;
+}
+
+async function embedTexts(provider: LLMProvider, texts: string[]): Promise<number[][] | null> {
+  if (texts.length === 0) return null;
+  try {
+    return await provider.embed(texts);
+  } catch (error) {
+    console.error('Embedding failed, falling back to lexical retrieval:', error);
+    return null;
+  }
+}
+
+export async function createRetrievalContext(
+  provider: LLMProvider,
+  prompt: string,
+  filePaths: string[]
+): Promise<RetrievalContext> {
+  const query = `${prompt}\n${filePaths.join(' ')}`;
+  const queryEmbedding = (await embedTexts(provider, [query]))?.[0] ?? null;
+  return { query, queryEmbedding, provider };
+}
+
+// Pinning is the user's choice and is stored apart from `importance`, which retrieval raises on its own.
+function importanceBoost(entry: { importance: string | null; pinned: boolean }): number {
+  if (entry.pinned || entry.importance === 'high') return 0.15;
+  if (entry.importance === 'low') return -0.1;
+  return 0;
+}
+
+async function backfillEmbeddings<T extends { id: string; embedding: unknown }>(
+  context: RetrievalContext,
+  rows: T[],
+  toText: (row: T) => string,
+  save: (id: string, embedding: number[]) => Promise<unknown>
+) {
+  if (!context.queryEmbedding) return;
+  const missing = rows.filter(row => !row.embedding).slice(0, BACKFILL_LIMIT);
+  const vectors = await embedTexts(context.provider, missing.map(toText));
+  if (!vectors) return;
+
+  await Promise.all(missing.map((row, i) => {
+    row.embedding = vectors[i];
+    return save(row.id, vectors[i]);
+  }));
+}
+
+export async function retrieveRelevantMemories(projectId: string, context: RetrievalContext, limit = 10): Promise<string[]> {
+  try {
+    // Pinned user instructions are standing orders, so they skip ranking and are always included.
+    const instructions = await db.query.agentMemory.findMany({
+      where: and(
+        eq(agentMemory.projectId, projectId),
+        eq(agentMemory.memoryType, 'user_instruction'),
+        eq(agentMemory.pinned, true)
+      ),
+      orderBy: [asc(agentMemory.createdAt)],
+    });
+    const instructionIds = new Set(instructions.map(m => m.id));
+
+    const recent = await db.query.agentMemory.findMany({
+      where: eq(agentMemory.projectId, projectId),
+      orderBy: [desc(agentMemory.createdAt)],
+      limit: CANDIDATE_LIMIT,
+    });
+    const candidates = recent.filter(m => !instructionIds.has(m.id));
+
+    await backfillEmbeddings(context, candidates, memoryText, (id, embedding) =>
+      db.update(agentMemory).set({ embedding }).where(eq(agentMemory.id, id)));
+
+    const ranked = rankEntries(context.query, candidates.map(memory => ({
+      item: memory,
+      text: memoryText(memory),
+      embedding: memory.embedding as number[] | null,
+      boost: importanceBoost(memory),
+    })), { queryEmbedding: context.queryEmbedding, limit });
+
+    const used = [...instructions, ...ranked.map(entry => entry.item)];
+    if (used.length > 0) {
+      await db.update(agentMemory)
+        .set({
+          lastAccessedAt: new Date(),
+          accessCount: sql`${agentMemory.accessCount} + 1`,
+          importance: sql`case when ${agentMemory.accessCount} + 1 >= ${HIGH_IMPORTANCE_ACCESS_COUNT} then 'high' else ${agentMemory.importance} end`,
+        })
+        .where(inArray(agentMemory.id, used.map(m => m.id)));
+    }
+
+    return used.map(m => `[${m.memoryType}] ${m.content}`);
+  } catch (error) {
+    console.error('Failed to retrieve memories:', error);
+    return [];
+  }
+}
+
+export async function retrieveRelevantLearnings(projectId: string, context: RetrievalContext, limit = 5): Promise<string[]> {
+  try {
+    const candidates = await db.query.agentLearnings.findMany({
+      where: eq(agentLearnings.projectId, projectId),
+      orderBy: [desc(agentLearnings.createdAt)],
+      limit: CANDIDATE_LIMIT,
+    });
+
+    await backfillEmbeddings(context, candidates, learningText, (id, embedding) =>
+      db.update(agentLearnings).set({ embedding }).where(eq(agentLearnings.id, id)));
+
+    const ranked = rankEntries(context.query, candidates.map(learning => ({
+      item: learning,
+      text: learningText(learning),
+      embedding: learning.embedding as number[] | null,
+      boost: importanceBoost(learning),
+    })), { queryEmbedding: context.queryEmbedding, limit });
+
+    if (ranked.length > 0) {
+      await db.update(agentLearnings)
+        .set({
+          lastAccessedAt: new Date(),
+          accessCount: sql`${agentLearnings.accessCount} + 1`,
+          importance: sql`case when ${agentLearnings.accessCount} + 1 >= ${HIGH_IMPORTANCE_ACCESS_COUNT} then 'high' else ${agentLearnings.importance} end`,
+        })
+        .where(inArray(agentLearnings.id, ranked.map(entry => entry.item.id)));
+    }
+
+    return ranked.map(({ item }) => `[${item.learningType}] ${item.pattern}: ${item.insight}`);
+  } catch (error) {
+    console.error('Failed to retrieve learnings:', error);
+    return [];
+  }
+}
+
+export async function storeMemory(
+  projectId: string,
+  memoryType: string,
+  content: string,
+  metadata?: Record<string, unknown>,
+  provider?: LLMProvider
+) {
+  try {
+    const embedding = provider
+      ? (await embedTexts(provider, [memoryText({ memoryType, category: null, content })]))?.[0] ?? null
+      : null;
+    await db.insert(agentMemory).values({
+      projectId,
+      memoryType,
+      content,
+      metadata,
+      importance: 'medium',
+      embedding,
+    });
+  } catch (error) {
+    console.error('Failed to store memory:', error);
+  }
+}
+
+export async function storeLearning(
+  projectId: string,
+  executionId: string | null,
+  learningType: string,
+  pattern: string,
+  insight: string,
+  provider?: LLMProvider
+) {
+  try {
+    const embedding = provider
+      ? (await embedTexts(provider, [learningText({ learningType, pattern, insight })]))?.[0] ?? null
+      : null;
+    await db.insert(agentLearnings).values({
+      projectId,
+      executionId,
+      learningType,
+      pattern,
+      insight,
+      embedding,
+    });
+  } catch (error) {
+    console.error('Failed to store learning:', error);
+  }
+}
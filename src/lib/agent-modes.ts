@@ -0,0 +1,339 @@
+import { z } from 'zod';
+import { LLMMessage, LLMProvider, LLMToolDefinition } from '@/lib/llm-provider';
+import { FileItem, FileTreeError, baseName, createItemId, flattenFiles, insertItem, normalizePath } from '@/lib/file-tree';
+
+export type AgentMode = 'generate' | 'edit' | 'ask';
+
+export class AgentModeError extends Error {}
+
+const MAX_PROMPT_CHARS = 20_000;
+const MAX_SCAFFOLD_FILES = 40;
+const MAX_SCAFFOLD_ATTEMPTS = 2;
+const MAX_ASK_TURNS = 6;
+const MAX_TOOL_RESULT_CHARS = 12_000;
+
+const fileItemSchema: z.ZodType<FileItem> = z.lazy(() => z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['file', 'folder']),
+  path: z.string(),
+  content: z.string().optional(),
+  children: z.array(fileItemSchema).optional(),
+}));
+
+const conversationMessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  createdAt: z.string().optional(),
+});
+
+// Requests without a mode are edits, which is what the editor sent before modes existed.
+export const agentRequestSchema = z.preprocess(
+  body => body && typeof body === 'object' && !('mode' in body) ? { ...body, mode: 'edit' } : body,
+  z.discriminatedUnion('mode', [
+    z.object({
+      mode: z.literal('generate'),
+      prompt: z.string().trim().min(1).max(MAX_PROMPT_CHARS),
+      projectId: z.string().optional(),
+    }),
+    z.object({
+      mode: z.literal('edit'),
+      prompt: z.string().max(MAX_PROMPT_CHARS).optional(),
+      projectId: z.string().optional(),
+      files: z.array(fileItemSchema).default([]),
+      baseUpdatedAt: z.string().nullish(),
+      resumeExecutionId: z.string().optional(),
+      approveExecutionId: z.string().optional(),
+      approvedPlan: z.unknown().optional(),
+      answerExecutionId: z.string().optional(),
+      answer: z.string().trim().min(1).max(2_000).optional(),
+      requirePlanApproval: z.boolean().default(false),
+      selfHeal: z.boolean().default(false),
+      reviewChanges: z.boolean().default(false),
+      conversationHistory: z.array(conversationMessageSchema).default([]),
+      stream: z.boolean().default(false),
+    }),
+    z.object({
+      mode: z.literal('ask'),
+      prompt: z.string().trim().min(1).max(MAX_PROMPT_CHARS),
+      projectId: z.string().optional(),
+      files: z.array(fileItemSchema).default([]),
+      conversationHistory: z.array(conversationMessageSchema).default([]),
+    }),
+  ])
+);
+
+export type AgentRequest = z.infer<typeof agentRequestSchema>;
+
+const siteConfigSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  theme: z.object({
+    primaryColor: z.string(),
+    fontFamily: z.string(),
+  }),
+});
+
+const sitePageSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  path: z.string().startsWith('/'),
+  file: z.string().min(1),
+  sections: z.array(z.string()),
+});
+
+function safeNormalize(path: string): string | null {
+  try {
+    return normalizePath(path);
+  } catch {
+    return null;
+  }
+}
+
+const siteScaffoldSchema = z.object({
+  siteConfig: siteConfigSchema,
+  pages: z.array(sitePageSchema).min(1),
+  files: z.array(z.object({ path: z.string().min(1), content: z.string() })).min(1).max(MAX_SCAFFOLD_FILES),
+}).superRefine((scaffold, ctx) => {
+  const paths = new Set<string>();
+  for (const [index, file] of scaffold.files.entries()) {
+    const path = safeNormalize(file.path);
+    if (!path) {
+      ctx.addIssue({ code: 'custom', path: ['files', index, 'path'], message: `Invalid path "${file.path}"` });
+      continue;
+    }
+    if (paths.has(path)) {
+      ctx.addIssue({ code: 'custom', path: ['files', index, 'path'], message: `Duplicate file ${path}` });
+    }
+    paths.add(path);
+  }
+  if (!paths.has('/index.html')) {
+    ctx.addIssue({ code: 'custom', path: ['files'], message: 'The site needs an /index.html entry page' });
+  }
+  for (const [index, page] of scaffold.pages.entries()) {
+    if (!paths.has(safeNormalize(page.file) ?? '')) {
+      ctx.addIssue({ code: 'custom', path: ['pages', index, 'file'], message: `Page "${page.name}" points to ${page.file}, which is not in files` });
+    }
+  }
+});
+
+const storedPageSchema = sitePageSchema.extend({ content: z.array(z.unknown()) });
+
+export type SiteConfig = z.infer<typeof siteConfigSchema>;
+export type SitePage = z.infer<typeof storedPageSchema>;
+
+const answerSchema = z.object({
+  answer: z.string().min(1),
+  references: z.array(z.object({
+    path: z.string(),
+    startLine: z.number().int().positive().nullable(),
+    endLine: z.number().int().positive().nullable(),
+  })),
+});
+
+export type AnswerReference = z.infer<typeof answerSchema>['references'][number];
+
+export const generateResponseSchema = z.object({
+  success: z.literal(true),
+  mode: z.literal('generate'),
+  projectId: z.string().nullable(),
+  generated: z.object({
+    siteConfig: siteConfigSchema,
+    pages: z.array(storedPageSchema).min(1),
+    files: z.array(fileItemSchema).min(1),
+  }),
+  usage: z.unknown(),
+});
+
+export const editResponseSchema = z.looseObject({
+  success: z.boolean(),
+  mode: z.literal('edit'),
+  executionId: z.string().nullish(),
+  message: z.string().optional(),
+  awaitingApproval: z.boolean().optional(),
+  awaitingInput: z.boolean().optional(),
+  reviewRequired: z.boolean().optional(),
+  question: z.object({
+    question: z.string(),
+    options: z.array(z.string()),
+    stepId: z.string().nullable(),
+  }).optional(),
+  cancelled: z.boolean().optional(),
+  updatedFiles: z.array(fileItemSchema).optional(),
+  usage: z.unknown(),
+});
+
+export const askResponseSchema = z.object({
+  success: z.literal(true),
+  mode: z.literal('ask'),
+  answer: z.string(),
+  references: answerSchema.shape.references,
+  usage: z.unknown(),
+});
+
+function buildFileTree(files: { path: string; content: string }[]): FileItem[] {
+  return files.reduce<FileItem[]>((tree, file) => {
+    const path = normalizePath(file.path);
+    return insertItem(tree, { id: createItemId(), name: baseName(path), type: 'file', path, content: file.content });
+  }, []);
+}
+
+export async function scaffoldSite(
+  description: string,
+  instructions: string,
+  provider: LLMProvider
+): Promise<{ siteConfig: SiteConfig; pages: SitePage[]; files: FileItem[] }> {
+  const basePrompt = `You are hgland Agent. Scaffold a complete, production-ready static website from this description.
+
+DESCRIPTION:
+${description}
+${instructions ? `\nPROJECT INSTRUCTIONS (set by the user, always follow these):\n${instructions}\n` : ''}
+Rules:
+- Plain HTML, CSS and JavaScript that runs in the browser without a build step; Tailwind via its CDN script is fine
+- /index.html is the home page; every other page is its own .html file linked from a shared navigation
+- Write real copy for the described business or person, not lorem ipsum
+- At most ${MAX_SCAFFOLD_FILES} files
+
+Respond with JSON:
+{
+  "siteConfig": { "title": "...", "description": "...", "theme": { "primaryColor": "#0891b2", "fontFamily": "Inter, sans-serif" } },
+  "pages": [{ "id": "home", "name": "Home", "path": "/", "file": "/index.html", "sections": ["hero", "features"] }],
+  "files": [{ "path": "/index.html", "content": "<!DOCTYPE html>..." }]
+}`;
+
+  let prompt = basePrompt;
+  let lastError = '';
+  for (let attempt = 1; attempt <= MAX_SCAFFOLD_ATTEMPTS; attempt++) {
+    const response = await provider.completeJSON({ purpose: 'scaffold', prompt, temperature: 0.7 });
+    const parsed = siteScaffoldSchema.safeParse(response);
+    if (parsed.success) {
+      const { siteConfig, pages, files } = parsed.data;
+      try {
+        return {
+          siteConfig,
+          pages: pages.map(page => ({ ...page, file: normalizePath(page.file), content: [] })),
+          files: buildFileTree(files),
+        };
+      } catch (error) {
+        if (!(error instanceof FileTreeError)) throw error;
+        lastError = error.message;
+      }
+    } else {
+      lastError = z.prettifyError(parsed.error);
+    }
+    prompt = `${basePrompt}\n\nYour previous response was rejected:\n${lastError}\n\nFix these problems and respond with the complete JSON again.`;
+  }
+
+  throw new AgentModeError(`The generated site did not match the expected structure:\n${lastError}`);
+}
+
+const answerTool: LLMToolDefinition = {
+  name: 'answer_question',
+  description: 'Give the final answer to the question. Call this exactly once, after you have looked at the relevant files.',
+  parameters: {
+    type: 'object',
+    properties: {
+      answer: { type: 'string', description: 'Markdown answer to the question' },
+      references: {
+        type: 'array',
+        description: 'Files and line ranges the answer is based on',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Project path of the file, e.g. "/js/contact.js"' },
+            startLine: { type: ['integer', 'null'], description: 'First cited line (1-based), or null for the whole file' },
+            endLine: { type: ['integer', 'null'], description: 'Last cited line, or null for a single line or the whole file' },
+          },
+          required: ['path', 'startLine', 'endLine'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['answer', 'references'],
+  },
+};
+
+export type ReadOnlyToolRunner = (name: string, args: Record<string, unknown>) => Promise<{ success: boolean; result: unknown; error?: string }>;
+
+// read_file results get line numbers so the model can cite exact ranges.
+function describeToolResult(outcome: { success: boolean; result: unknown; error?: string }): string {
+  if (!outcome.success) return `Error: ${outcome.error}`;
+  const result = outcome.result as Record<string, unknown>;
+  if (result.action === 'read_file' && typeof result.content === 'string') {
+    const numbered = result.content.split('\n').map((line, index) => `${index + 1}: ${line}`).join('\n');
+    return `${result.path}\n${numbered}`.slice(0, MAX_TOOL_RESULT_CHARS);
+  }
+  return JSON.stringify(result).slice(0, MAX_TOOL_RESULT_CHARS);
+}
+
+// Read-only: the model only gets the tools passed in (read_file, list_files, search_files) plus
+// answer_question, so nothing in the project can change and no execution record is written.
+export async function answerQuestion(
+  question: string,
+  files: FileItem[],
+  history: { role: string; content: string }[],
+  instructions: string,
+  provider: LLMProvider,
+  readOnlyTools: LLMToolDefinition[],
+  runTool: ReadOnlyToolRunner
+): Promise<{ answer: string; references: AnswerReference[] }> {
+  const fileList = flattenFiles(files).filter(file => file.type === 'file').map(file => file.path);
+  const recent = history.slice(-6).map(message => `${message.role.toUpperCase()}: ${message.content.slice(0, 1_000)}`);
+
+  const prompt = `You are hgland Agent answering a question about a website project. You cannot change the project: do not write new code for it or claim to have changed anything. Explain, point to the relevant files and suggest what to change if asked.
+
+Use search_files, list_files and read_file to find the code the question is about, then call answer_question once with your answer and references to the files and line ranges you used. Only cite lines you have read.
+
+## PROJECT FILES
+${fileList.length > 0 ? fileList.map(path => `- ${path}`).join('\n') : 'No files yet'}
+${instructions ? `\n## PROJECT INSTRUCTIONS\n${instructions}\n` : ''}${recent.length > 0 ? `\n## RECENT CONVERSATION\n${recent.join('\n\n')}\n` : ''}`;
+
+  const allowed = new Set(readOnlyTools.map(tool => tool.name));
+  const messages: LLMMessage[] = [{ role: 'user', content: question }];
+  for (let turn = 1; turn <= MAX_ASK_TURNS; turn++) {
+    const lastTurn = turn === MAX_ASK_TURNS;
+    const response = await provider.respondWithTools({
+      instructions: prompt,
+      messages: lastTurn ? [...messages, { role: 'user', content: 'Call answer_question now with what you have found.' }] : messages,
+      tools: lastTurn ? [answerTool] : [...readOnlyTools, answerTool],
+    });
+
+    const final = response.toolCalls.find(call => call.name === answerTool.name);
+    if (final) {
+      const parsed = answerSchema.safeParse(final.arguments);
+      if (!parsed.success) {
+        throw new AgentModeError(`The answer did not match the expected structure:\n${z.prettifyError(parsed.error)}`);
+      }
+      return { answer: parsed.data.answer, references: existingReferences(parsed.data.references, files) };
+    }
+    if (response.toolCalls.length === 0) {
+      if (response.text.trim()) return { answer: response.text.trim(), references: [] };
+      break;
+    }
+
+    if (response.text) messages.push({ role: 'assistant', content: response.text });
+    for (const call of response.toolCalls) {
+      const outcome = allowed.has(call.name)
+        ? await runTool(call.name, call.arguments)
+        : { success: false, result: null, error: `${call.name} is not available when answering questions` };
+      messages.push({ role: 'assistant', content: `Called ${call.name} ${JSON.stringify(call.arguments)}` });
+      messages.push({ role: 'user', content: `Result of ${call.name}:\n${describeToolResult(outcome)}` });
+    }
+  }
+
+  throw new AgentModeError('The agent did not produce an answer');
+}
+
+function existingReferences(references: AnswerReference[], files: FileItem[]): AnswerReference[] {
+  const lineCounts = new Map(flattenFiles(files)
+    .filter(file => file.type === 'file')
+    .map(file => [normalizePath(file.path), (file.content ?? '').split('\n').length]));
+  return references.flatMap(reference => {
+    const path = safeNormalize(reference.path);
+    const lines = path ? lineCounts.get(path) : undefined;
+    if (!path || lines === undefined) return [];
+    const startLine = reference.startLine && reference.startLine <= lines ? reference.startLine : null;
+    const endLine = startLine && reference.endLine && reference.endLine >= startLine ? Math.min(reference.endLine, lines) : startLine;
+    return [{ path, startLine, endLine }];
+  });
+}
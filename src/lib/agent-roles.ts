@@ -0,0 +1,317 @@
+import { randomUUID } from 'crypto';
+import {
+  Agent,
+  AgentInputItem,
+  AgentsError,
+  FunctionTool,
+  Model,
+  ModelRequest,
+  ModelResponse,
+  Runner,
+  Usage,
+  assistant,
+  handoff,
+  setTracingDisabled,
+  tool,
+  user,
+} from '@openai/agents';
+import { z } from 'zod';
+import { trimToolPayload } from '@/lib/agent-executions';
+import { listProposedFileChanges } from '@/lib/change-review';
+import { FileItem } from '@/lib/file-tree';
+import { diffLines } from '@/lib/line-diff';
+import { JSONPurpose, LLMMessage, LLMProvider, LLMProviderError, LLMToolDefinition } from '@/lib/llm-provider';
+
+// Traces would carry project files to the OpenAI dashboard; execution records keep the transcripts instead.
+setTracingDisabled(true);
+
+export type AgentRole = 'planner' | 'coder' | 'reviewer';
+
+export interface TranscriptEntry {
+  role: AgentRole;
+  kind: 'message' | 'tool_call' | 'tool_result' | 'handoff';
+  name?: string;
+  content: unknown;
+  at: string;
+}
+
+// One role conversation: the planner's (`stepId` null) or one attempt at a plan step.
+export interface RoleTranscript {
+  stepId: string | null;
+  attempt: number;
+  entries: TranscriptEntry[];
+}
+
+export type RoleToolRunner = (
+  role: AgentRole,
+  name: string,
+  args: Record<string, unknown>
+) => Promise<{ success: boolean; result: unknown; error?: string }>;
+
+export const MAX_REVIEW_ROUNDS = 2;
+const MAX_ROLE_TURNS = 16;
+const MAX_TOOL_OUTPUT_CHARS = 12_000;
+const MAX_DIFF_CHARS = 16_000;
+
+// Roles that answer with a single JSON document instead of calling tools.
+const jsonPurposes: Partial<Record<AgentRole, JSONPurpose>> = { planner: 'plan' };
+
+function record(transcript: TranscriptEntry[], role: AgentRole, kind: TranscriptEntry['kind'], name: string | null, content: unknown) {
+  transcript.push({ role, kind, ...(name ? { name } : {}), content: trimToolPayload(content), at: new Date().toISOString() });
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.map(textOf).join('');
+  if (content && typeof content === 'object' && 'text' in content) return String(content.text);
+  return '';
+}
+
+// The provider interface only carries text messages, so earlier tool calls and their results are replayed as text.
+function toMessages(input: ModelRequest['input']): LLMMessage[] {
+  if (typeof input === 'string') return [{ role: 'user', content: input }];
+  return input.flatMap((item): LLMMessage[] => {
+    if ('role' in item) {
+      const content = textOf(item.content);
+      return content ? [{ role: item.role === 'assistant' ? 'assistant' : 'user', content }] : [];
+    }
+    if (item.type === 'function_call') return [{ role: 'assistant', content: `Called ${item.name} with ${item.arguments}` }];
+    if (item.type === 'function_call_result') return [{ role: 'user', content: `${item.name} returned: ${textOf(item.output)}` }];
+    return [];
+  });
+}
+
+function createRoleModel(role: AgentRole, provider: LLMProvider, transcript: TranscriptEntry[]): Model {
+  return {
+    async getResponse(request: ModelRequest): Promise<ModelResponse> {
+      const messages = toMessages(request.input);
+      const purpose = jsonPurposes[role];
+      if (purpose) {
+        const output = await provider.completeJSON({
+          purpose,
+          prompt: [request.systemInstructions ?? '', ...messages.map(message => message.content)].filter(Boolean).join('\n\n'),
+          temperature: request.modelSettings.temperature,
+        });
+        record(transcript, role, 'message', null, output);
+        return { usage: new Usage(), output: [assistant(JSON.stringify(output))] };
+      }
+
+      const handoffs = new Set(request.handoffs.map(entry => entry.toolName));
+      const tools: LLMToolDefinition[] = [
+        ...request.tools.flatMap(entry => entry.type === 'function'
+          ? [{ name: entry.name, description: entry.description, parameters: entry.parameters }]
+          : []),
+        ...request.handoffs.map(entry => ({ name: entry.toolName, description: entry.toolDescription, parameters: entry.inputJsonSchema })),
+      ];
+      const response = await provider.respondWithTools({ instructions: request.systemInstructions ?? '', messages, tools });
+
+      if (response.text) record(transcript, role, 'message', null, response.text);
+      for (const call of response.toolCalls) {
+        record(transcript, role, handoffs.has(call.name) ? 'handoff' : 'tool_call', call.name, call.arguments);
+      }
+      return {
+        usage: new Usage(),
+        output: [
+          ...(response.text ? [assistant(response.text)] : []),
+          ...response.toolCalls.map(call => ({
+            type: 'function_call' as const,
+            callId: `call_${randomUUID()}`,
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+            status: 'completed' as const,
+          })),
+        ],
+      };
+    },
+
+    getStreamedResponse() {
+      throw new LLMProviderError('Role models do not stream');
+    },
+  };
+}
+
+// Every role runs on the configured LLM provider, so usage metering and the scripted provider keep working.
+function createRoleRunner(provider: LLMProvider, transcript: TranscriptEntry[]): Runner {
+  return new Runner({
+    modelProvider: { getModel: name => createRoleModel(name as AgentRole, provider, transcript) },
+    tracingDisabled: true,
+  });
+}
+
+function roleTools(
+  role: AgentRole,
+  definitions: LLMToolDefinition[],
+  runTool: RoleToolRunner,
+  transcript: TranscriptEntry[]
+): FunctionTool[] {
+  return definitions.map(definition => tool({
+    name: definition.name,
+    description: definition.description,
+    parameters: { ...definition.parameters, additionalProperties: false } as FunctionTool['parameters'],
+    strict: true,
+    async execute(input) {
+      const outcome = await runTool(role, definition.name, input as Record<string, unknown>);
+      const output = outcome.success ? outcome.result : { error: outcome.error };
+      record(transcript, role, 'tool_result', definition.name, output);
+      const text = JSON.stringify(output) ?? 'null';
+      return text.length > MAX_TOOL_OUTPUT_CHARS ? `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}… [truncated]` : text;
+    },
+  }) as FunctionTool);
+}
+
+function toInputItems(messages: LLMMessage[]): AgentInputItem[] {
+  return messages.map(message => message.role === 'assistant' ? assistant(message.content) : user(message.content));
+}
+
+export async function runPlannerRole(options: {
+  provider: LLMProvider;
+  instructions: string;
+  goal: string;
+  temperature?: number;
+  transcript: TranscriptEntry[];
+}): Promise<unknown> {
+  const planner = new Agent({
+    name: 'planner',
+    instructions: options.instructions,
+    model: 'planner',
+    modelSettings: { temperature: options.temperature },
+  });
+  const result = await createRoleRunner(options.provider, options.transcript)
+    .run(planner, `Plan this goal: ${options.goal}`, { maxTurns: 1 });
+  return JSON.parse(result.finalOutput || '{}');
+}
+
+export const stepReviewSchema = z.object({
+  approved: z.boolean(),
+  score: z.number(),
+  issues: z.array(z.string()),
+});
+
+export type StepReview = z.infer<typeof stepReviewSchema>;
+
+export interface StepRolesResult {
+  outcome: string | null;
+  review: StepReview | null;
+  feedbackRounds: number;
+  error: string | null;
+}
+
+const reviewerGuidance = `You are the reviewer on the hgland Agent team. The coder has just worked on one step of a plan.
+Check the diff below against the step's expected outcome and the project instructions: look for missing pieces, broken markup or scripts, references to files that do not exist, and changes outside the step's scope.
+Use read_file, list_files and search_files when the diff is not enough to judge.
+- If there are problems the coder can fix, call transfer_to_coder with concrete, actionable feedback (file, what is wrong, what to do).
+- Otherwise call submit_review. Approve only when the step's expected outcome is met; list any remaining problems in issues.`;
+
+// The coder works on the step and hands it to the reviewer, who either sends it back with feedback
+// (at most MAX_REVIEW_ROUNDS times) or submits a verdict. The step only counts as completed once approved.
+export async function runStepRoles(options: {
+  provider: LLMProvider;
+  input: LLMMessage[];
+  coderInstructions: (feedback: string[]) => string;
+  reviewBrief: () => Promise<string>;
+  coderTools: LLMToolDefinition[];
+  reviewerTools: LLMToolDefinition[];
+  runTool: RoleToolRunner;
+  shouldPause: () => boolean;
+  transcript: TranscriptEntry[];
+}): Promise<StepRolesResult> {
+  const { transcript } = options;
+  const state: { outcome: string | null; feedback: string[]; rounds: number; review: StepReview | null } = {
+    outcome: null,
+    feedback: [],
+    rounds: 0,
+    review: null,
+  };
+
+  const coder = new Agent({
+    name: 'coder',
+    handoffDescription: 'Changes the project files to carry out the step',
+    instructions: () => options.coderInstructions(state.feedback),
+    model: 'coder',
+    tools: roleTools('coder', options.coderTools, options.runTool, transcript),
+    toolUseBehavior: () => options.shouldPause()
+      ? { isFinalOutput: true, isInterrupted: undefined, finalOutput: 'Paused until the user answers' }
+      : { isFinalOutput: false, isInterrupted: undefined },
+  });
+
+  const submitReview = tool({
+    name: 'submit_review',
+    description: 'Record your verdict on the step. Call it once, when you are done reviewing.',
+    parameters: stepReviewSchema,
+    async execute(review) {
+      state.review = { ...review, score: Math.min(100, Math.max(0, Math.round(review.score))) };
+      record(transcript, 'reviewer', 'tool_result', 'submit_review', state.review);
+      return review.approved ? 'Step approved' : 'Step rejected';
+    },
+  });
+
+  const reviewer = new Agent({
+    name: 'reviewer',
+    handoffDescription: 'Reviews the diff of the step and approves it or sends it back with feedback',
+    instructions: async () => `${reviewerGuidance}\n\n${await options.reviewBrief()}`,
+    model: 'reviewer',
+    tools: [...roleTools('reviewer', options.reviewerTools, options.runTool, transcript), submitReview],
+    toolUseBehavior: { stopAtToolNames: ['submit_review'] },
+    handoffs: [handoff(coder, {
+      inputType: z.object({ feedback: z.array(z.string()) }),
+      toolDescriptionOverride: 'Send the step back to the coder with concrete problems to fix',
+      isEnabled: () => state.rounds < MAX_REVIEW_ROUNDS,
+      onHandoff: (_context, input) => {
+        state.rounds++;
+        state.feedback = input?.feedback ?? [];
+      },
+    })],
+  });
+
+  coder.handoffs = [handoff(reviewer, {
+    inputType: z.object({ outcome: z.string() }),
+    toolDescriptionOverride: 'Hand the finished step to the reviewer, summarizing what you did',
+    onHandoff: (_context, input) => {
+      state.outcome = input?.outcome ?? null;
+    },
+  })];
+
+  const runner = createRoleRunner(options.provider, transcript);
+  let error: string | null = null;
+  try {
+    const result = await runner.run(coder, toInputItems(options.input), { maxTurns: MAX_ROLE_TURNS });
+    // A coder that stops without handing over is still reviewed.
+    if (!options.shouldPause() && !state.review && result.lastAgent?.name === 'coder') {
+      await runner.run(reviewer, result.history, { maxTurns: MAX_ROLE_TURNS });
+    }
+  } catch (caught) {
+    if (!(caught instanceof AgentsError)) throw caught;
+    error = caught.message;
+  }
+
+  return { outcome: state.outcome, review: state.review, feedbackRounds: state.rounds, error };
+}
+
+function isBinary(content: string | null): boolean {
+  return Boolean(content?.startsWith('data:'));
+}
+
+// A unified-style diff of what changed between two file trees, for the reviewer's prompt.
+export function formatFileDiff(before: FileItem[], after: FileItem[]): string {
+  const changes = listProposedFileChanges({ baseFiles: before, files: after });
+  if (changes.length === 0) return 'No file changes.';
+
+  const text = changes.map(change => {
+    const header = `--- ${change.path} (${change.change})`;
+    if (change.change === 'deleted') return header;
+    if (isBinary(change.before) || isBinary(change.after)) return `${header}\n[binary content]`;
+    if (change.change === 'added') return `${header}\n${(change.after ?? '').split('\n').map(line => `+${line}`).join('\n')}`;
+    return [
+      header,
+      ...diffLines(change.before ?? '', change.after ?? '').map(hunk => [
+        `@@ line ${hunk.originalStart} @@`,
+        ...hunk.originalLines.map(line => `-${line}`),
+        ...hunk.modifiedLines.map(line => `+${line}`),
+      ].join('\n')),
+    ].join('\n');
+  }).join('\n\n');
+
+  return text.length > MAX_DIFF_CHARS
+    ? `${text.slice(0, MAX_DIFF_CHARS)}\n… [diff truncated; use read_file to see the rest]`
+    : text;
+}
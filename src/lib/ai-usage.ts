@@ -0,0 +1,213 @@
+import { db } from '@/db';
+import { aiUsage, users } from '@/db/schema';
+import { eq, and, gte, inArray, sql } from 'drizzle-orm';
+import { LLMUsage } from '@/lib/llm-provider';
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage?: number;
+}
+
+// USD list prices; override or extend with AI_MODEL_PRICING='{"model":{"inputPerMillion":1,"outputPerMillion":2}}'.
+const defaultPricing: Record<string, ModelPrice> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-5.1-codex-max': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-image-1': { inputPerMillion: 5, outputPerMillion: 40, perImage: 0.04 },
+  'text-embedding-3-small': { inputPerMillion: 0.02, outputPerMillion: 0 },
+  'text-embedding-3-large': { inputPerMillion: 0.13, outputPerMillion: 0 },
+  scripted: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+let pricing: Record<string, ModelPrice> | null = null;
+
+function getPricing(): Record<string, ModelPrice> {
+  if (pricing) return pricing;
+  pricing = { ...defaultPricing };
+  if (process.env.AI_MODEL_PRICING) {
+    try {
+      Object.assign(pricing, JSON.parse(process.env.AI_MODEL_PRICING));
+    } catch (error) {
+      console.error('Ignoring malformed AI_MODEL_PRICING:', error);
+    }
+  }
+  return pricing;
+}
+
+export function estimateCost(usage: Pick<LLMUsage, 'model' | 'inputTokens' | 'outputTokens' | 'images'>): number {
+  const price = getPricing()[usage.model];
+  if (!price) return 0;
+  // Image usage is billed per token when the API reports it, otherwise at the flat per-image price.
+  const imageCost = usage.images && usage.inputTokens + usage.outputTokens === 0 ? usage.images * (price.perImage ?? 0) : 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000 + imageCost;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface UsageReport extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCostUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, usage: LLMUsage, cost: number) {
+  totals.calls += 1;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalTokens += usage.inputTokens + usage.outputTokens;
+  totals.estimatedCostUsd += cost;
+}
+
+export interface UsageLedger {
+  record(usage: LLMUsage): Promise<void>;
+  attachExecution(executionId: string): Promise<void>;
+  report(): UsageReport;
+}
+
+// Calls made before the execution row exists (retrieval embeddings, planning) are attached to it afterwards.
+export function createUsageLedger(scope: { userId: string; projectId?: string; executionId?: string | null }): UsageLedger {
+  let executionId = scope.executionId ?? null;
+  const unattached: string[] = [];
+  const totals = emptyTotals();
+  const byModel: Record<string, UsageTotals> = {};
+
+  return {
+    async record(usage) {
+      const cost = estimateCost(usage);
+      addToTotals(totals, usage, cost);
+      addToTotals(byModel[usage.model] ??= emptyTotals(), usage, cost);
+
+      try {
+        const [row] = await db.insert(aiUsage).values({
+          userId: scope.userId,
+          projectId: scope.projectId ?? null,
+          executionId,
+          operation: usage.operation,
+          model: usage.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          images: usage.images ?? 0,
+          estimatedCostUsd: cost,
+        }).returning({ id: aiUsage.id });
+        if (!executionId) unattached.push(row.id);
+      } catch (error) {
+        console.error('Failed to record AI usage:', error);
+      }
+    },
+
+    async attachExecution(id) {
+      executionId = id;
+      if (unattached.length === 0) return;
+      try {
+        await db.update(aiUsage).set({ executionId: id }).where(inArray(aiUsage.id, unattached.splice(0)));
+      } catch (error) {
+        console.error('Failed to attach AI usage to execution:', error);
+      }
+    },
+
+    report() {
+      return {
+        ...totals,
+        estimatedCostUsd: roundCost(totals.estimatedCostUsd),
+        byModel: Object.fromEntries(Object.entries(byModel).map(([model, t]) => [
+          model,
+          { ...t, estimatedCostUsd: roundCost(t.estimatedCostUsd) },
+        ])),
+      };
+    },
+  };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function parseQuota(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export interface QuotaPeriodUsage {
+  tokens: number;
+  estimatedCostUsd: number;
+  limit: number | null;
+  resetsAt: string;
+}
+
+export interface UsageSummary {
+  daily: QuotaPeriodUsage;
+  monthly: QuotaPeriodUsage;
+  byModel: Record<string, UsageTotals>;
+}
+
+async function periodTotals(userId: string, since: Date) {
+  const [row] = await db.select({
+    tokens: sql<number>`coalesce(sum(${aiUsage.inputTokens} + ${aiUsage.outputTokens}), 0)::int`,
+    cost: sql<number>`coalesce(sum(${aiUsage.estimatedCostUsd}), 0)::float8`,
+  })
+    .from(aiUsage)
+    .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)));
+  return row;
+}
+
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { dailyTokenQuota: true, monthlyTokenQuota: true },
+  });
+
+  const [day, month, models] = await Promise.all([
+    periodTotals(userId, dayStart),
+    periodTotals(userId, monthStart),
+    db.select({
+      model: aiUsage.model,
+      calls: sql<number>`count(*)::int`,
+      inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)::int`,
+      outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)::int`,
+      estimatedCostUsd: sql<number>`coalesce(sum(${aiUsage.estimatedCostUsd}), 0)::float8`,
+    })
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, monthStart)))
+      .groupBy(aiUsage.model),
+  ]);
+
+  return {
+    daily: {
+      tokens: day.tokens,
+      estimatedCostUsd: roundCost(day.cost),
+      limit: user?.dailyTokenQuota ?? parseQuota(process.env.AI_DAILY_TOKEN_QUOTA),
+      resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+    },
+    monthly: {
+      tokens: month.tokens,
+      estimatedCostUsd: roundCost(month.cost),
+      limit: user?.monthlyTokenQuota ?? parseQuota(process.env.AI_MONTHLY_TOKEN_QUOTA),
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString(),
+    },
+    byModel: Object.fromEntries(models.map(({ model, ...t }) => [model, {
+      ...t,
+      totalTokens: t.inputTokens + t.outputTokens,
+      estimatedCostUsd: roundCost(t.estimatedCostUsd),
+    }])),
+  };
+}
+
+export async function checkQuota(userId: string): Promise<{ exceeded: 'daily' | 'monthly' | null; usage: UsageSummary }> {
+  const usage = await getUsageSummary(userId);
+  if (usage.daily.limit !== null && usage.daily.tokens >= usage.daily.limit) return { exceeded: 'daily', usage };
+  if (usage.monthly.limit !== null && usage.monthly.tokens >= usage.monthly.limit) return { exceeded: 'monthly', usage };
+  return { exceeded: null, usage };
+}
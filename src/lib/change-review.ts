@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import {
+  FileItem,
+  createItemId,
+  findItemByPath,
+  flattenFiles,
+  insertItem,
+  normalizePath,
+  removeItem,
+  sameItem,
+  updateItem,
+} from '@/lib/file-tree';
+import { PackageItem, ProjectSettings, SettingChange, SettingsSection } from '@/lib/project-settings';
+
+// What a run in review mode would have saved; nothing is written until the user applies it.
+export interface ProposedChanges {
+  baseFiles: FileItem[];
+  files: FileItem[];
+  packages: PackageItem[];
+  settings: Partial<Pick<ProjectSettings, SettingsSection>>;
+  settingsChanges: SettingChange[];
+}
+
+export interface ProposedFileChange {
+  path: string;
+  change: 'added' | 'modified' | 'deleted';
+  before: string | null;
+  after: string | null;
+}
+
+export class ChangeReviewError extends Error {}
+
+export const applyChangesSchema = z.object({
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string().nullable(),
+  })).default([]),
+  includeSettings: z.boolean().default(true),
+});
+
+export function listProposedFileChanges(proposal: Pick<ProposedChanges, 'baseFiles' | 'files'>): ProposedFileChange[] {
+  const index = (items: FileItem[]) => new Map(flattenFiles(items)
+    .filter(item => item.type === 'file')
+    .map(item => [normalizePath(item.path), item]));
+  const before = index(proposal.baseFiles);
+  const after = index(proposal.files);
+
+  const changes: ProposedFileChange[] = [];
+  for (const path of new Set([...before.keys(), ...after.keys()])) {
+    const beforeItem = before.get(path);
+    const afterItem = after.get(path);
+    if (sameItem(beforeItem, afterItem)) continue;
+    changes.push({
+      path,
+      change: !beforeItem ? 'added' : !afterItem ? 'deleted' : 'modified',
+      before: beforeItem ? beforeItem.content ?? '' : null,
+      after: afterItem ? afterItem.content ?? '' : null,
+    });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Accepted files are written onto the project as it is now, so edits made since the run are kept
+// for every path the user did not accept. `content: null` deletes the file.
+export function applyFileDecisions(
+  current: FileItem[],
+  proposal: ProposedChanges,
+  decisions: z.infer<typeof applyChangesSchema>['files']
+): FileItem[] {
+  const proposed = new Set(listProposedFileChanges(proposal).map(change => change.path));
+  let files = current;
+  for (const decision of decisions) {
+    const path = normalizePath(decision.path);
+    if (!proposed.has(path)) {
+      throw new ChangeReviewError(`${path} is not one of the files this run changed`);
+    }
+    const existing = findItemByPath(files, path);
+    if (existing && existing.type !== 'file') {
+      throw new ChangeReviewError(`${path} is now a folder`);
+    }
+    if (decision.content === null) {
+      if (existing) files = removeItem(files, existing.id);
+    } else if (existing) {
+      files = updateItem(files, existing.id, { content: decision.content });
+    } else {
+      files = insertItem(files, { id: createItemId(), name: '', type: 'file', path, content: decision.content });
+    }
+  }
+  return files;
+}
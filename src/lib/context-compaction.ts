@@ -0,0 +1,184 @@
+import { LLMProvider, estimateTokens } from '@/lib/llm-provider';
+import { FileItem, flattenFiles } from '@/lib/file-tree';
+import { rankEntries } from '@/lib/retrieval';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt?: string;
+}
+
+export interface ConversationSummary {
+  summary: string;
+  summarizedThrough: string | null;
+  summarizedCount: number;
+}
+
+export interface ContextBudget {
+  historyTokens: number;
+  fileTokens: number;
+}
+
+// Fractions of the model's context window, capped so a large window does not turn into a large bill per step.
+export function contextBudgetFor(provider: LLMProvider): ContextBudget {
+  const window = provider.contextTokens;
+  return {
+    historyTokens: Math.min(Math.floor(window * 0.15), 12_000),
+    fileTokens: Math.min(Math.floor(window * 0.4), 60_000),
+  };
+}
+
+const MAX_SUMMARY_INPUT_TOKENS = 12_000;
+const MAX_MESSAGE_EXCERPT_CHARS = 2_000;
+
+function messageTokens(message: ConversationMessage): number {
+  return estimateTokens(message.content) + 4;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function fallbackSummary(previous: string, messages: ConversationMessage[]): string {
+  const points: string[] = [];
+  let request = '';
+  for (const message of messages) {
+    if (message.role === 'user') {
+      request = message.content.slice(0, 200);
+    } else if (message.role === 'assistant' && request) {
+      points.push(`- "${request}" → ${message.content.slice(0, 300)}`);
+      request = '';
+    }
+  }
+  return [previous, ...points.slice(-15)].filter(Boolean).join('\n');
+}
+
+async function summarize(provider: LLMProvider, previous: string, messages: ConversationMessage[]): Promise<string> {
+  const transcript: string[] = [];
+  let tokens = 0;
+  for (const message of [...messages].reverse()) {
+    const line = `${message.role.toUpperCase()}: ${truncate(message.content, MAX_MESSAGE_EXCERPT_CHARS)}`;
+    tokens += estimateTokens(line);
+    if (tokens > MAX_SUMMARY_INPUT_TOKENS) break;
+    transcript.unshift(line);
+  }
+
+  const prompt = `You maintain the running summary of a conversation between a user and an AI agent that builds a website project.
+
+## CURRENT SUMMARY
+${previous || 'None yet'}
+
+## NEW MESSAGES TO FOLD IN
+${transcript.join('\n\n')}
+
+Update the summary so it stays useful for future turns. Keep decisions the user made, requirements and preferences they stated, what was built or changed (file paths, libraries, design choices), and anything left unfinished. Drop pleasantries and step-by-step narration. Write terse bullet points, at most about 400 words.
+
+Respond in JSON: { "summary": "..." }`;
+
+  try {
+    const response = await provider.completeJSON({ purpose: 'summarize', prompt, temperature: 0.2 }) as { summary?: unknown };
+    if (typeof response.summary === 'string' && response.summary.trim()) return response.summary.trim();
+  } catch (error) {
+    console.error('Conversation summarization failed, using excerpt summary:', error);
+  }
+  return fallbackSummary(previous, messages);
+}
+
+export interface CompactedConversation {
+  messages: ConversationMessage[];
+  summary: ConversationSummary | null;
+  summaryChanged: boolean;
+  newlySummarized: number;
+}
+
+// Keeps as many recent messages as fit the history budget and folds everything older into the
+// stored running summary. Messages with timestamps at or before `summarizedThrough` are already in it.
+export async function compactConversation(
+  history: ConversationMessage[],
+  stored: ConversationSummary | null,
+  provider: LLMProvider,
+  historyTokens: number
+): Promise<CompactedConversation> {
+  const since = stored?.summarizedThrough ? new Date(stored.summarizedThrough).getTime() : null;
+  const pending = since === null
+    ? history
+    : history.filter(message => !message.createdAt || new Date(message.createdAt).getTime() > since);
+
+  const summaryTokens = stored ? estimateTokens(stored.summary) : 0;
+  const kept: ConversationMessage[] = [];
+  let used = summaryTokens;
+  for (let i = pending.length - 1; i >= 0; i--) {
+    const tokens = messageTokens(pending[i]);
+    if (used + tokens > historyTokens && kept.length > 0) break;
+    kept.unshift(used + tokens > historyTokens
+      ? { ...pending[i], content: truncate(pending[i].content, Math.max(0, historyTokens - used) * 4) }
+      : pending[i]);
+    used += tokens;
+  }
+
+  const older = pending.slice(0, pending.length - kept.length);
+  if (older.length === 0) {
+    return { messages: kept, summary: stored, summaryChanged: false, newlySummarized: 0 };
+  }
+
+  const summary: ConversationSummary = {
+    summary: await summarize(provider, stored?.summary ?? '', older),
+    summarizedThrough: older[older.length - 1].createdAt ?? stored?.summarizedThrough ?? null,
+    summarizedCount: (stored?.summarizedCount ?? 0) + older.length,
+  };
+  return { messages: kept, summary, summaryChanged: true, newlySummarized: older.length };
+}
+
+export interface FileContext {
+  text: string;
+  trimmedFiles: string[];
+  elidedFiles: string[];
+}
+
+const MIN_TRIMMED_FILE_TOKENS = 400;
+
+// Files most relevant to the query get their full content; once the budget runs low the next file is
+// cut to a head excerpt and the rest are listed without content so the agent can read_file them.
+export function buildFileContext(files: FileItem[], query: string, fileTokens: number): FileContext {
+  const entries = flattenFiles(files).filter(file => file.type === 'file');
+  const isImage = (file: FileItem) => Boolean(file.content?.startsWith('data:image'));
+  const ranked = rankEntries(query, entries.map(file => ({
+    item: file,
+    text: `${file.path} ${isImage(file) ? '' : file.content ?? ''}`,
+  })), { limit: entries.length, minScore: 0 });
+
+  const rendered = new Map<string, string>();
+  const trimmedFiles: string[] = [];
+  const elidedFiles: string[] = [];
+  let remaining = fileTokens;
+
+  for (const { item: file } of ranked) {
+    const header = `📄 ${file.path} (id: ${file.id})`;
+    if (isImage(file)) {
+      rendered.set(file.id, `${header} [IMAGE]`);
+      continue;
+    }
+
+    const content = file.content || '[empty]';
+    const tokens = estimateTokens(content);
+    if (tokens <= remaining) {
+      rendered.set(file.id, `${header}:\n\`\`\`\n${content}\n\`\`\``);
+      remaining -= tokens;
+    } else if (remaining >= MIN_TRIMMED_FILE_TOKENS) {
+      const excerpt = content.slice(0, remaining * 4);
+      const shownLines = excerpt.split('\n').length;
+      const totalLines = content.split('\n').length;
+      rendered.set(file.id, `${header} [TRIMMED: first ${shownLines} of ${totalLines} lines, use read_file for the rest]:\n\`\`\`\n${excerpt}\n\`\`\``);
+      trimmedFiles.push(file.path);
+      remaining = 0;
+    } else {
+      rendered.set(file.id, `${header} [content omitted, ${content.split('\n').length} lines, use read_file]`);
+      elidedFiles.push(file.path);
+    }
+  }
+
+  const text = flattenFiles(files)
+    .map(item => item.type === 'folder' ? `📁 ${item.path}` : rendered.get(item.id) ?? '')
+    .join('\n\n');
+  return { text, trimmedFiles, elidedFiles };
+}
@@ -0,0 +1,136 @@
+import { FileItem, flattenFiles, mergeFileTrees, normalizePath, sameItem } from '@/lib/file-tree';
+import { PackageItem, SettingsSection } from '@/lib/project-settings';
+
+export interface ProjectSnapshot {
+  takenAt: string;
+  files: FileItem[];
+  packages: PackageItem[];
+  seoSettings: unknown;
+  deploymentConfig: unknown;
+  integrations: unknown;
+}
+
+export interface UndoFileChange {
+  path: string;
+  change: 'added' | 'modified' | 'deleted';
+  editedSince: boolean;
+  current: string | null;
+  restored: string | null;
+}
+
+export interface UndoPreview {
+  files: UndoFileChange[];
+  removedPackages: string[];
+  settings: { section: SettingsSection; editedSince: boolean }[];
+  editedSince: string[];
+}
+
+export const snapshotColumns = {
+  files: true,
+  packages: true,
+  seoSettings: true,
+  deploymentConfig: true,
+  integrations: true,
+} as const;
+
+const settingsSections: SettingsSection[] = ['seoSettings', 'deploymentConfig', 'integrations'];
+
+export function takeSnapshot(project: {
+  files: unknown;
+  packages: unknown;
+  seoSettings: unknown;
+  deploymentConfig: unknown;
+  integrations: unknown;
+}): ProjectSnapshot {
+  return {
+    takenAt: new Date().toISOString(),
+    files: (project.files as FileItem[] | null) ?? [],
+    packages: (project.packages as PackageItem[] | null) ?? [],
+    seoSettings: project.seoSettings ?? null,
+    deploymentConfig: project.deploymentConfig ?? null,
+    integrations: project.integrations ?? null,
+  };
+}
+
+// jsonb does not keep key order, so settings are compared with sorted keys.
+function sameValue(a: unknown, b: unknown): boolean {
+  const stable = (value: unknown) => JSON.stringify(value ?? null, (_key, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.entries(entry).sort(([x], [y]) => x.localeCompare(y)))
+      : entry);
+  return stable(a) === stable(b);
+}
+
+function runPackages(before: ProjectSnapshot, after: ProjectSnapshot): Set<string> {
+  const existing = new Set(before.packages.map(pkg => pkg.name));
+  return new Set(after.packages.map(pkg => pkg.name).filter(name => !existing.has(name)));
+}
+
+// `before` is the tree the run started from, `after` what it saved and `current` the project now.
+// Paths the run did not touch are left alone; touched paths that changed again since are "edited since".
+export function previewUndo(before: ProjectSnapshot, after: ProjectSnapshot, current: ProjectSnapshot): UndoPreview {
+  const index = (items: FileItem[]) => new Map(flattenFiles(items)
+    .filter(item => item.type === 'file')
+    .map(item => [normalizePath(item.path), item]));
+  const beforeIndex = index(before.files);
+  const afterIndex = index(after.files);
+  const currentIndex = index(current.files);
+
+  const files: UndoFileChange[] = [];
+  for (const path of new Set([...beforeIndex.keys(), ...afterIndex.keys()])) {
+    const beforeItem = beforeIndex.get(path);
+    const afterItem = afterIndex.get(path);
+    const currentItem = currentIndex.get(path);
+    if (sameItem(beforeItem, afterItem) || sameItem(beforeItem, currentItem)) continue;
+
+    files.push({
+      path,
+      change: !beforeItem ? 'added' : !afterItem ? 'deleted' : 'modified',
+      editedSince: !sameItem(currentItem, afterItem),
+      current: currentItem ? currentItem.content ?? '' : null,
+      restored: beforeItem ? beforeItem.content ?? '' : null,
+    });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  const added = runPackages(before, after);
+  const settings = settingsSections
+    .filter(section => !sameValue(before[section], after[section]) && !sameValue(before[section], current[section]))
+    .map(section => ({ section, editedSince: !sameValue(current[section], after[section]) }));
+
+  return {
+    files,
+    removedPackages: current.packages.map(pkg => pkg.name).filter(name => added.has(name)),
+    settings,
+    editedSince: [
+      ...files.filter(file => file.editedSince).map(file => file.path),
+      ...settings.filter(setting => setting.editedSince).map(setting => setting.section),
+    ],
+  };
+}
+
+export function applyUndo(
+  before: ProjectSnapshot,
+  after: ProjectSnapshot,
+  current: ProjectSnapshot,
+  overwriteEdited: boolean
+): { restored: Omit<ProjectSnapshot, 'takenAt'>; keptEdits: string[] } {
+  const { files, conflicts } = mergeFileTrees(after.files, before.files, current.files, overwriteEdited ? 'ours' : 'theirs');
+  const keptEdits = overwriteEdited ? [] : [...conflicts];
+  const added = runPackages(before, after);
+
+  const restored: Omit<ProjectSnapshot, 'takenAt'> = {
+    files,
+    packages: current.packages.filter(pkg => !added.has(pkg.name)),
+    seoSettings: current.seoSettings,
+    deploymentConfig: current.deploymentConfig,
+    integrations: current.integrations,
+  };
+  for (const section of settingsSections) {
+    if (sameValue(before[section], after[section])) continue;
+    if (overwriteEdited || sameValue(current[section], after[section])) restored[section] = before[section];
+    else if (!sameValue(current[section], before[section])) keptEdits.push(section);
+  }
+
+  return { restored, keptEdits };
+}
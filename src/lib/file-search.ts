@@ -0,0 +1,65 @@
+import { FileItem, flattenFiles, normalizePath } from '@/lib/file-tree';
+
+const MAX_MATCHES = 50;
+const MAX_LINE_CHARS = 200;
+const MAX_QUERY_CHARS = 200;
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  filesSearched: number;
+  truncated: boolean;
+}
+
+export class FileSearchError extends Error {}
+
+function buildMatcher(query: string, regex: boolean): (line: string) => boolean {
+  if (!query.trim()) throw new FileSearchError('Search query is empty');
+  if (query.length > MAX_QUERY_CHARS) throw new FileSearchError(`Search query is longer than ${MAX_QUERY_CHARS} characters`);
+
+  if (regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query, 'i');
+    } catch (error) {
+      throw new FileSearchError(`Invalid regular expression: ${(error as Error).message}`);
+    }
+    return line => pattern.test(line);
+  }
+  const needle = query.toLowerCase();
+  return line => line.toLowerCase().includes(needle);
+}
+
+// Case-insensitive line search over file contents. Images are stored as data URLs and skipped.
+export function searchFiles(
+  files: FileItem[],
+  query: string,
+  options: { regex?: boolean; path?: string } = {}
+): SearchResult {
+  const matches = buildMatcher(query, options.regex ?? false);
+  const prefix = options.path ? normalizePath(options.path) : '/';
+  const inScope = (path: string) => prefix === '/' || path === prefix || path.startsWith(`${prefix}/`);
+
+  const result: SearchResult = { matches: [], filesSearched: 0, truncated: false };
+  for (const file of flattenFiles(files)) {
+    const path = normalizePath(file.path);
+    if (file.type !== 'file' || !inScope(path) || !file.content || file.content.startsWith('data:')) continue;
+    result.filesSearched++;
+
+    const lines = file.content.replace(/\r\n/g, '\n').split('\n');
+    for (const [index, line] of lines.entries()) {
+      if (!matches(line)) continue;
+      if (result.matches.length === MAX_MATCHES) {
+        result.truncated = true;
+        return result;
+      }
+      result.matches.push({ path, line: index + 1, text: line.trim().slice(0, MAX_LINE_CHARS) });
+    }
+  }
+  return result;
+}
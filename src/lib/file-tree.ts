@@ -0,0 +1,200 @@
+export interface FileItem {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  content?: string;
+  children?: FileItem[];
+  path: string;
+}
+
+export class FileTreeError extends Error {}
+
+export function createItemId(): string {
+  return Date.now().toString() + Math.random().toString(36).slice(2);
+}
+
+export function normalizePath(input: string): string {
+  const segments = input.replace(/\\/g, '/').split('/').filter(s => s && s !== '.');
+  if (segments.includes('..')) {
+    throw new FileTreeError(`Path "${input}" must not contain ".."`);
+  }
+  return '/' + segments.join('/');
+}
+
+export function joinPath(folder: string, name: string): string {
+  return normalizePath(`${folder}/${name}`);
+}
+
+export function parentPath(path: string): string {
+  const normalized = normalizePath(path);
+  return normalized.slice(0, normalized.lastIndexOf('/')) || '/';
+}
+
+export function baseName(path: string): string {
+  const normalized = normalizePath(path);
+  return normalized.slice(normalized.lastIndexOf('/') + 1);
+}
+
+export function flattenFiles(items: FileItem[]): FileItem[] {
+  const result: FileItem[] = [];
+  for (const item of items) {
+    result.push(item);
+    if (item.children) result.push(...flattenFiles(item.children));
+  }
+  return result;
+}
+
+export function findItemById(items: FileItem[], id: string): FileItem | null {
+  return flattenFiles(items).find(item => item.id === id) ?? null;
+}
+
+export function findItemByPath(items: FileItem[], path: string): FileItem | null {
+  const target = normalizePath(path);
+  return flattenFiles(items).find(item => normalizePath(item.path) === target) ?? null;
+}
+
+export function resolveItem(items: FileItem[], ref: string): FileItem | null {
+  const byId = findItemById(items, ref);
+  if (byId) return byId;
+  try {
+    return findItemByPath(items, ref);
+  } catch {
+    return null;
+  }
+}
+
+export function ensureFolder(items: FileItem[], folderPath: string): FileItem[] {
+  const segments = normalizePath(folderPath).split('/').filter(Boolean);
+
+  const ensure = (level: FileItem[], depth: number, prefix: string): FileItem[] => {
+    if (depth === segments.length) return level;
+    const path = `${prefix}/${segments[depth]}`;
+    const existing = level.find(item => normalizePath(item.path) === path);
+
+    if (existing && existing.type === 'file') {
+      throw new FileTreeError(`Cannot create folder ${path}: a file already exists at that path`);
+    }
+    if (existing) {
+      return level.map(item => item === existing
+        ? { ...item, children: ensure(item.children ?? [], depth + 1, path) }
+        : item);
+    }
+    return [...level, {
+      id: createItemId(),
+      name: segments[depth],
+      type: 'folder',
+      path,
+      children: ensure([], depth + 1, path),
+    }];
+  };
+
+  return ensure(items, 0, '');
+}
+
+export function insertItem(items: FileItem[], item: FileItem): FileItem[] {
+  const path = normalizePath(item.path);
+  if (findItemByPath(items, path)) {
+    throw new FileTreeError(`${path} already exists`);
+  }
+
+  const parent = parentPath(path);
+  const entry = { ...item, path, name: baseName(path) };
+  if (parent === '/') return [...items, entry];
+
+  const withParent = ensureFolder(items, parent);
+  const addToParent = (level: FileItem[]): FileItem[] => level.map(current => {
+    if (current.type !== 'folder') return current;
+    if (normalizePath(current.path) === parent) {
+      return { ...current, children: [...(current.children ?? []), entry] };
+    }
+    return current.children ? { ...current, children: addToParent(current.children) } : current;
+  });
+  return addToParent(withParent);
+}
+
+export function removeItem(items: FileItem[], id: string): FileItem[] {
+  return items
+    .filter(item => item.id !== id)
+    .map(item => item.children ? { ...item, children: removeItem(item.children, id) } : item);
+}
+
+export function updateItem(items: FileItem[], id: string, changes: Partial<Pick<FileItem, 'content'>>): FileItem[] {
+  return items.map(item => {
+    if (item.id === id) return { ...item, ...changes };
+    return item.children ? { ...item, children: updateItem(item.children, id, changes) } : item;
+  });
+}
+
+function rebase(item: FileItem, newPath: string): FileItem {
+  return {
+    ...item,
+    path: newPath,
+    name: baseName(newPath),
+    children: item.children?.map(child => rebase(child, joinPath(newPath, child.name))),
+  };
+}
+
+export function relocateItem(items: FileItem[], id: string, newPath: string): FileItem[] {
+  const item = findItemById(items, id);
+  if (!item) throw new FileTreeError(`No file or folder with ID ${id}`);
+
+  const target = normalizePath(newPath);
+  const source = normalizePath(item.path);
+  if (target === source) return items;
+  if (item.type === 'folder' && target.startsWith(`${source}/`)) {
+    throw new FileTreeError(`Cannot move ${source} into itself`);
+  }
+  if (findItemByPath(items, target)) {
+    throw new FileTreeError(`${target} already exists`);
+  }
+
+  return insertItem(removeItem(items, id), rebase(item, target));
+}
+
+export function sameItem(a?: FileItem, b?: FileItem): boolean {
+  if (!a || !b) return a === b;
+  return a.type === b.type && (a.content ?? '') === (b.content ?? '');
+}
+
+export function mergeFileTrees(
+  base: FileItem[],
+  ours: FileItem[],
+  theirs: FileItem[],
+  prefer: 'ours' | 'theirs' = 'theirs'
+): { files: FileItem[]; conflicts: string[] } {
+  const index = (items: FileItem[]) => new Map(flattenFiles(items).map(item => [normalizePath(item.path), item]));
+  const baseIndex = index(base);
+  const ourIndex = index(ours);
+  const theirIndex = index(theirs);
+
+  const picked: FileItem[] = [];
+  const conflicts: string[] = [];
+
+  // Paths are visited in tree order, theirs first and then what only ours has, so every parent is inserted
+  // before its children and the existing file and folder order is kept.
+  for (const path of new Set([...theirIndex.keys(), ...ourIndex.keys(), ...baseIndex.keys()])) {
+    const baseItem = baseIndex.get(path);
+    const ourItem = ourIndex.get(path);
+    const theirItem = theirIndex.get(path);
+
+    let item: FileItem | undefined;
+    if (sameItem(ourItem, baseItem)) item = theirItem;
+    else if (sameItem(theirItem, baseItem) || sameItem(ourItem, theirItem)) item = ourItem;
+    else {
+      item = prefer === 'ours' ? ourItem : theirItem;
+      conflicts.push(path);
+    }
+    if (item) picked.push(item);
+  }
+
+  let files: FileItem[] = [];
+  for (const item of picked) {
+    try {
+      files = insertItem(files, item.type === 'folder' ? { ...item, children: [] } : item);
+    } catch (error) {
+      if (!(error instanceof FileTreeError)) throw error;
+    }
+  }
+
+  return { files, conflicts };
+}
@@ -0,0 +1,81 @@
+export interface DiffHunk {
+  // 1-based; a pure insertion has no original lines and goes before `originalStart`.
+  originalStart: number;
+  originalLines: string[];
+  modifiedStart: number;
+  modifiedLines: string[];
+}
+
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Line-based LCS diff. Very large changed regions are reported as a single hunk instead of being diffed.
+export function diffLines(original: string, modified: string): DiffHunk[] {
+  const a = original.split('\n');
+  const b = modified.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  if (oldLines.length === 0 && newLines.length === 0) return [];
+
+  const n = oldLines.length;
+  const m = newLines.length;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [{ originalStart: prefix + 1, originalLines: oldLines, modifiedStart: prefix + 1, modifiedLines: newLines }];
+  }
+
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { originalStart: prefix + i + 1, originalLines: [], modifiedStart: prefix + j + 1, modifiedLines: [] };
+      hunks.push(current);
+    }
+    if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      current.modifiedLines.push(newLines[j++]);
+    } else {
+      current.originalLines.push(oldLines[i++]);
+    }
+  }
+  return hunks;
+}
+
+// Rebuilds the file from `original`, taking the modified side only for the accepted hunk indexes.
+export function applyHunks(original: string, hunks: DiffHunk[], accepted: Set<number>): string {
+  const lines = original.split('\n');
+  const result: string[] = [];
+  let position = 0;
+  hunks.forEach((hunk, index) => {
+    const start = hunk.originalStart - 1;
+    result.push(...lines.slice(position, start));
+    result.push(...(accepted.has(index) ? hunk.modifiedLines : hunk.originalLines));
+    position = start + hunk.originalLines.length;
+  });
+  result.push(...lines.slice(position));
+  return result.join('\n');
+}
@@ -0,0 +1,367 @@
+import OpenAI from 'openai';
+import { readFileSync } from 'fs';
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMToolResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+}
+
+export type JSONPurpose = 'plan' | 'evaluate' | 'summarize' | 'scaffold';
+
+export type UsageOperation = JSONPurpose | 'tool_step' | 'image' | 'embedding';
+
+export interface LLMUsage {
+  operation: UsageOperation;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images?: number;
+}
+
+type UsageListener = (usage: LLMUsage) => void | Promise<void>;
+
+export interface LLMProvider {
+  name: string;
+  contextTokens: number;
+  completeJSON(request: { purpose: JSONPurpose; prompt: string; temperature?: number; onUsage?: UsageListener }): Promise<unknown>;
+  respondWithTools(request: {
+    instructions: string;
+    messages: LLMMessage[];
+    tools: LLMToolDefinition[];
+    onUsage?: UsageListener;
+  }): Promise<LLMToolResponse>;
+  generateImage(request: { prompt: string; size: string; onUsage?: UsageListener }): Promise<string | null>;
+  embed(texts: string[], onUsage?: UsageListener): Promise<number[][] | null>;
+}
+
+export class LLMProviderError extends Error {}
+
+const contextWindows: Record<string, number> = {
+  'gpt-4o': 128_000,
+  'gpt-4o-mini': 128_000,
+  'gpt-5.1-codex-max': 400_000,
+};
+
+function contextTokensFor(model: string): number {
+  return Number(process.env.LLM_CONTEXT_TOKENS) || contextWindows[model] || 32_000;
+}
+
+// There is no tokenizer dependency; chars/4 is close enough for English text and code to budget prompts.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    throw new LLMProviderError(`Model returned malformed tool arguments: ${raw.slice(0, 200)}`);
+  }
+}
+
+export function createOpenAIProvider(options: {
+  apiKey?: string;
+  jsonModel?: string;
+  toolModel?: string;
+  imageModel?: string;
+  embeddingModel?: string;
+} = {}): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey ?? process.env.OPENAI_API_KEY });
+  const imageClient = new OpenAI({
+    apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+    baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+  });
+  const jsonModel = options.jsonModel ?? 'gpt-4o';
+  const toolModel = options.toolModel ?? 'gpt-5.1-codex-max';
+  const imageModel = options.imageModel ?? 'gpt-image-1';
+  const embeddingModel = options.embeddingModel ?? 'text-embedding-3-small';
+
+  return {
+    name: 'openai',
+    contextTokens: contextTokensFor(toolModel),
+
+    async completeJSON({ purpose, prompt, temperature, onUsage }) {
+      const response = await client.chat.completions.create({
+        model: jsonModel,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: { type: 'json_object' },
+        temperature,
+      });
+      await onUsage?.({
+        operation: purpose,
+        model: jsonModel,
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      });
+      return JSON.parse(response.choices[0]?.message?.content || '{}');
+    },
+
+    async respondWithTools({ instructions, messages, tools, onUsage }) {
+      const response = await client.responses.create({
+        model: toolModel,
+        instructions,
+        input: messages,
+        tools: tools.map(tool => ({
+          type: 'function' as const,
+          name: tool.name,
+          description: tool.description,
+          parameters: { ...tool.parameters, additionalProperties: false },
+          strict: true,
+        })),
+      });
+      await onUsage?.({
+        operation: 'tool_step',
+        model: toolModel,
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      });
+
+      const result: LLMToolResponse = { text: '', toolCalls: [] };
+      for (const item of response.output) {
+        if (item.type === 'function_call') {
+          result.toolCalls.push({ name: item.name, arguments: parseArguments(item.arguments) });
+        } else if (item.type === 'message') {
+          for (const content of item.content) {
+            if (content.type === 'output_text') result.text += content.text;
+          }
+        }
+      }
+      return result;
+    },
+
+    async generateImage({ prompt, size, onUsage }) {
+      const response = await imageClient.images.generate({
+        model: imageModel,
+        prompt,
+        size: size as '1024x1024' | '512x512' | '256x256',
+      });
+      await onUsage?.({
+        operation: 'image',
+        model: imageModel,
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+        images: response.data?.length ?? 0,
+      });
+      return response.data?.[0]?.b64_json ?? null;
+    },
+
+    async embed(texts, onUsage) {
+      const response = await client.embeddings.create({ model: embeddingModel, input: texts });
+      await onUsage?.({ operation: 'embedding', model: embeddingModel, inputTokens: response.usage.prompt_tokens, outputTokens: 0 });
+      return response.data.map(item => item.embedding);
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider(options: {
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+  imageModel?: string;
+  embeddingModel?: string;
+}): LLMProvider {
+  const client = new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey || 'not-needed' });
+
+  return {
+    name: 'openai-compatible',
+    contextTokens: contextTokensFor(options.model),
+
+    async completeJSON({ purpose, prompt, temperature, onUsage }) {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: { type: 'json_object' },
+        temperature,
+      });
+      await onUsage?.({
+        operation: purpose,
+        model: options.model,
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      });
+      const text = response.choices[0]?.message?.content || '{}';
+      const json = text.match(/\{[\s\S]*\}/);
+      return JSON.parse(json ? json[0] : text);
+    },
+
+    async respondWithTools({ instructions, messages, tools, onUsage }) {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: [{ role: 'system', content: instructions }, ...messages],
+        tools: tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      });
+      await onUsage?.({
+        operation: 'tool_step',
+        model: options.model,
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      });
+
+      const message = response.choices[0]?.message;
+      return {
+        text: message?.content ?? '',
+        toolCalls: (message?.tool_calls ?? []).flatMap(call => call.type === 'function'
+          ? [{ name: call.function.name, arguments: parseArguments(call.function.arguments) }]
+          : []),
+      };
+    },
+
+    async generateImage({ prompt, size, onUsage }) {
+      if (!options.imageModel) {
+        throw new LLMProviderError('Image generation is not configured for this provider (set LLM_IMAGE_MODEL)');
+      }
+      const response = await client.images.generate({
+        model: options.imageModel,
+        prompt,
+        size: size as '1024x1024' | '512x512' | '256x256',
+        response_format: 'b64_json',
+      });
+      await onUsage?.({ operation: 'image', model: options.imageModel, inputTokens: 0, outputTokens: 0, images: response.data?.length ?? 0 });
+      return response.data?.[0]?.b64_json ?? null;
+    },
+
+    async embed(texts, onUsage) {
+      if (!options.embeddingModel) return null;
+      const response = await client.embeddings.create({ model: options.embeddingModel, input: texts });
+      await onUsage?.({ operation: 'embedding', model: options.embeddingModel, inputTokens: response.usage?.prompt_tokens ?? 0, outputTokens: 0 });
+      return response.data.map(item => item.embedding);
+    },
+  };
+}
+
+export interface ProviderScript {
+  plans?: unknown[];
+  evaluations?: unknown[];
+  summaries?: unknown[];
+  scaffolds?: unknown[];
+  turns?: { text?: string; toolCalls?: LLMToolCall[] }[];
+  images?: string[];
+}
+
+const placeholderImage = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export function createScriptedProvider(script: ProviderScript): LLMProvider {
+  const plans = [...(script.plans ?? [])];
+  const evaluations = [...(script.evaluations ?? [])];
+  const summaries = [...(script.summaries ?? [])];
+  const scaffolds = [...(script.scaffolds ?? [])];
+  const turns = [...(script.turns ?? [])];
+  const images = [...(script.images ?? [])];
+
+  return {
+    name: 'scripted',
+    contextTokens: contextTokensFor('scripted'),
+
+    async completeJSON({ purpose, prompt, onUsage }) {
+      const queue = { plan: plans, evaluate: evaluations, summarize: summaries, scaffold: scaffolds }[purpose];
+      if (queue.length === 0) {
+        throw new LLMProviderError(`Scripted provider has no ${purpose} response left`);
+      }
+      const response = queue.shift();
+      await onUsage?.({
+        operation: purpose,
+        model: 'scripted',
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(JSON.stringify(response)),
+      });
+      return structuredClone(response);
+    },
+
+    async respondWithTools({ instructions, messages, tools, onUsage }) {
+      const turn = turns.shift();
+      await onUsage?.({
+        operation: 'tool_step',
+        model: 'scripted',
+        inputTokens: estimateTokens(instructions + messages.map(m => m.content).join('')),
+        outputTokens: estimateTokens(JSON.stringify(turn ?? '')),
+      });
+      if (!turn) return { text: '', toolCalls: [] };
+
+      const known = new Set(tools.map(tool => tool.name));
+      const unknown = turn.toolCalls?.find(call => !known.has(call.name));
+      if (unknown) {
+        throw new LLMProviderError(`Scripted turn calls unknown tool "${unknown.name}"`);
+      }
+      return { text: turn.text ?? '', toolCalls: structuredClone(turn.toolCalls ?? []) };
+    },
+
+    async generateImage({ onUsage }) {
+      await onUsage?.({ operation: 'image', model: 'scripted', inputTokens: 0, outputTokens: 0, images: 1 });
+      return images.shift() ?? placeholderImage;
+    },
+
+    async embed() {
+      return null;
+    },
+  };
+}
+
+export function meterProvider(provider: LLMProvider, onUsage: UsageListener): LLMProvider {
+  return {
+    name: provider.name,
+    contextTokens: provider.contextTokens,
+    completeJSON: request => provider.completeJSON({ ...request, onUsage }),
+    respondWithTools: request => provider.respondWithTools({ ...request, onUsage }),
+    generateImage: request => provider.generateImage({ ...request, onUsage }),
+    embed: texts => provider.embed(texts, onUsage),
+  };
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const kind = process.env.LLM_PROVIDER || 'openai';
+  switch (kind) {
+    case 'openai':
+      cachedProvider = createOpenAIProvider();
+      break;
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      const model = process.env.LLM_MODEL;
+      if (!baseURL || !model) {
+        throw new LLMProviderError('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider');
+      }
+      cachedProvider = createOpenAICompatibleProvider({
+        baseURL,
+        model,
+        apiKey: process.env.LLM_API_KEY,
+        imageModel: process.env.LLM_IMAGE_MODEL,
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+      });
+      break;
+    }
+    case 'scripted': {
+      // A fresh script per run keeps replays deterministic, so this provider is never cached.
+      const scriptPath = process.env.LLM_SCRIPT_PATH;
+      if (!scriptPath) {
+        throw new LLMProviderError('LLM_SCRIPT_PATH is required for the scripted provider');
+      }
+      return createScriptedProvider(JSON.parse(readFileSync(scriptPath, 'utf8')));
+    }
+    default:
+      throw new LLMProviderError(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+  return cachedProvider;
+}
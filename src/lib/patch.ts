@@ -0,0 +1,106 @@
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export type PatchResult =
+  | { ok: true; content: string; appliedHunks: number }
+  | { ok: false; error: string; hunkIndex: number };
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
+
+function detectLineEnding(text: string): '\r\n' | '\n' {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  return crlf > lf ? '\r\n' : '\n';
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function findLooseMatch(content: string, search: string): { start: number; end: number }[] {
+  const contentLines = content.split('\n');
+  const searchLines = search.split('\n').map(line => line.trim());
+  while (searchLines.length > 0 && searchLines[searchLines.length - 1] === '') searchLines.pop();
+  if (searchLines.length === 0) return [];
+
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of contentLines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const matches: { start: number; end: number }[] = [];
+  for (let i = 0; i + searchLines.length <= contentLines.length; i++) {
+    const isMatch = searchLines.every((line, j) => contentLines[i + j].trim() === line);
+    if (isMatch) {
+      const last = i + searchLines.length - 1;
+      matches.push({ start: lineOffsets[i], end: lineOffsets[last] + contentLines[last].length });
+    }
+  }
+  return matches;
+}
+
+export function applySearchReplace(original: string, edits: SearchReplaceEdit[]): PatchResult {
+  // Hunks are matched against LF text, then the file's own line ending is restored.
+  const lineEnding = detectLineEnding(original);
+  let content = normalizeLineEndings(original);
+
+  for (let i = 0; i < edits.length; i++) {
+    const search = normalizeLineEndings(edits[i].search);
+    const replace = normalizeLineEndings(edits[i].replace);
+    const hunk = i + 1;
+
+    if (!search) {
+      return { ok: false, hunkIndex: hunk, error: `Hunk ${hunk} has an empty search block` };
+    }
+
+    const exactCount = countOccurrences(content, search);
+    if (exactCount === 1) {
+      const start = content.indexOf(search);
+      content = content.slice(0, start) + replace + content.slice(start + search.length);
+      continue;
+    }
+    if (exactCount > 1) {
+      return {
+        ok: false,
+        hunkIndex: hunk,
+        error: `Hunk ${hunk} search block matches ${exactCount} locations; include more surrounding lines so it is unique`,
+      };
+    }
+
+    const looseMatches = findLooseMatch(content, search);
+    if (looseMatches.length === 1) {
+      const { start, end } = looseMatches[0];
+      content = content.slice(0, start) + replace.replace(/\n$/, '') + content.slice(end);
+      continue;
+    }
+    if (looseMatches.length > 1) {
+      return {
+        ok: false,
+        hunkIndex: hunk,
+        error: `Hunk ${hunk} search block matches ${looseMatches.length} locations (ignoring indentation); include more surrounding lines so it is unique`,
+      };
+    }
+
+    const firstLine = search.split('\n').find(line => line.trim())?.trim() ?? '';
+    return {
+      ok: false,
+      hunkIndex: hunk,
+      error: `Hunk ${hunk} did not match the current file content${firstLine ? ` (search started with "${firstLine.slice(0, 80)}")` : ''}. Use read_file to get the exact current text and copy the search block from it`,
+    };
+  }
+
+  if (lineEnding === '\r\n') content = content.replace(/\n/g, '\r\n');
+  return { ok: true, content, appliedHunks: edits.length };
+}
@@ -0,0 +1,60 @@
+import { randomBytes } from 'crypto';
+import { and, desc, eq, inArray, lt } from 'drizzle-orm';
+import { db } from '@/db';
+import { deployments } from '@/db/schema';
+import { FileItem } from '@/lib/file-tree';
+
+const DEFAULT_PREVIEW_TTL_HOURS = 24;
+const MAX_PREVIEWS_PER_PROJECT = 5;
+
+export interface PreviewDeployment {
+  id: string;
+  subdomain: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export function previewTTLHours(): number {
+  const hours = Number(process.env.PREVIEW_DEPLOYMENT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_PREVIEW_TTL_HOURS;
+}
+
+export function isExpired(deployment: { expiresAt: Date | null }): boolean {
+  return deployment.expiresAt !== null && deployment.expiresAt.getTime() <= Date.now();
+}
+
+export async function purgeExpiredPreviews(): Promise<void> {
+  await db.delete(deployments)
+    .where(and(eq(deployments.kind, 'preview'), lt(deployments.expiresAt, new Date())));
+}
+
+// Previews get an unguessable subdomain so they never collide with (or reveal) the production one.
+export async function createPreviewDeployment(projectId: string, files: FileItem[]): Promise<PreviewDeployment> {
+  await purgeExpiredPreviews();
+
+  const subdomain = `preview-${randomBytes(8).toString('hex')}`;
+  const url = `/deploy/${subdomain}`;
+  const expiresAt = new Date(Date.now() + previewTTLHours() * 60 * 60 * 1000);
+
+  const [deployment] = await db.insert(deployments).values({
+    projectId,
+    kind: 'preview',
+    status: 'deployed',
+    url,
+    subdomain,
+    sslEnabled: true,
+    deployedFiles: files,
+    expiresAt,
+  }).returning({ id: deployments.id });
+
+  const older = await db.select({ id: deployments.id })
+    .from(deployments)
+    .where(and(eq(deployments.projectId, projectId), eq(deployments.kind, 'preview')))
+    .orderBy(desc(deployments.createdAt))
+    .offset(MAX_PREVIEWS_PER_PROJECT);
+  if (older.length > 0) {
+    await db.delete(deployments).where(inArray(deployments.id, older.map(row => row.id)));
+  }
+
+  return { id: deployment.id, subdomain, url, expiresAt };
+}
@@ -0,0 +1,194 @@
+import { Worker } from 'worker_threads';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileItem, flattenFiles, normalizePath } from '@/lib/file-tree';
+import { detectSandboxIsolation, runIsolated } from '@/lib/sandbox';
+
+export interface PreviewProblem {
+  kind: 'exception' | 'console' | 'resource';
+  message: string;
+}
+
+export interface PreviewRenderResult {
+  page: string;
+  problems: PreviewProblem[];
+  externalResources: string[];
+  timedOut: boolean;
+  // False when no sandbox is available and the page was only parsed and its resources loaded.
+  scriptsExecuted: boolean;
+}
+
+export interface RenderOptions {
+  html?: string;
+  timeoutMs?: number;
+}
+
+const PREVIEW_ORIGIN = 'http://preview.local';
+const RENDER_TIMEOUT_MS = 5_000;
+const SETTLE_MS = 300;
+const PROCESS_STARTUP_MS = 3_000;
+const MAX_RESULT_BYTES = 1024 * 1024;
+
+interface RenderInput {
+  html: string;
+  page: string;
+  files: Record<string, string>;
+  origin: string;
+  settleMs: number;
+  runScripts: boolean;
+}
+
+type RenderOutput = Pick<PreviewRenderResult, 'problems' | 'externalResources'>;
+
+// Page scripts can escape jsdom (`this.constructor.constructor('return process')()`), so they only run in
+// a separate process inside the bubblewrap sandbox, which reads its input from stdin. Without the sandbox
+// the same code runs in a worker thread with scripts disabled. Either way a page that never finishes
+// loading is killed. Project files are served from memory; remote resources are never fetched and get a 404.
+const rendererSource = `
+const { parentPort, workerData } = require('worker_threads');
+const { JSDOM, VirtualConsole, requestInterceptor } = require('jsdom');
+
+const MAX_PROBLEMS = 100;
+
+function render(options, send) {
+  const problems = [];
+  const externalResources = [];
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('error', (...args) => problems.push({ kind: 'console', message: args.map(String).join(' ') }));
+  virtualConsole.on('jsdomError', error => {
+    if (error.type === 'unhandled-exception') {
+      const cause = error.cause || error;
+      const location = cause.stack ? cause.stack.split('\\n').find(line => line.includes(options.origin)) : '';
+      problems.push({ kind: 'exception', message: cause.message + (location ? ' (' + location.trim() + ')' : '') });
+    } else if (error.type === 'resource-loading') {
+      const cause = error.cause ? ': ' + error.cause.message : '';
+      problems.push({ kind: 'resource', message: error.message + cause });
+    }
+  });
+
+  const contentTypes = { js: 'application/javascript', mjs: 'application/javascript', css: 'text/css', html: 'text/html', json: 'application/json' };
+
+  const dom = new JSDOM(options.html, {
+    url: options.origin + options.page,
+    runScripts: options.runScripts ? 'dangerously' : undefined,
+    pretendToBeVisual: true,
+    virtualConsole,
+    resources: {
+      interceptors: [requestInterceptor(request => {
+        const url = new URL(request.url);
+        if (url.origin !== options.origin) {
+          externalResources.push(request.url);
+          return new Response('', { status: 404 });
+        }
+        const content = options.files[decodeURIComponent(url.pathname)];
+        if (content === undefined) return new Response('', { status: 404 });
+        const extension = url.pathname.split('.').pop();
+        return new Response(content, { headers: { 'Content-Type': contentTypes[extension] || 'text/plain' } });
+      })],
+    },
+  });
+
+  dom.window.addEventListener('load', () => {
+    setTimeout(() => {
+      send({ problems: problems.slice(0, MAX_PROBLEMS), externalResources: externalResources.slice(0, MAX_PROBLEMS) });
+      dom.window.close();
+    }, options.settleMs);
+  });
+}
+
+if (parentPort) {
+  render(workerData, result => parentPort.postMessage(result));
+} else {
+  let input = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', chunk => { input += chunk; });
+  process.stdin.on('end', () => render(JSON.parse(input), result => {
+    process.stdout.write(JSON.stringify(result), () => process.exit(0));
+  }));
+}
+`;
+
+function timedOutResult(timeoutMs: number): Omit<PreviewRenderResult, 'page' | 'scriptsExecuted'> {
+  return {
+    problems: [{ kind: 'exception', message: `The page did not finish loading within ${timeoutMs / 1000}s (a script may loop forever)` }],
+    externalResources: [],
+    timedOut: true,
+  };
+}
+
+function crashedResult(message: string): Omit<PreviewRenderResult, 'page' | 'scriptsExecuted'> {
+  return {
+    problems: [{ kind: 'exception', message: `Preview renderer crashed: ${message}` }],
+    externalResources: [],
+    timedOut: false,
+  };
+}
+
+async function renderInSandbox(input: RenderInput, timeoutMs: number): Promise<Omit<PreviewRenderResult, 'page' | 'scriptsExecuted'>> {
+  const workspace = await mkdtemp(path.join(tmpdir(), 'hgland-render-'));
+  try {
+    await writeFile(path.join(workspace, 'render.js'), rendererSource);
+    const run = await runIsolated(['node', 'render.js'], workspace, {
+      // jsdom and its dependencies are resolved from /node_modules.
+      mounts: [[path.join(process.cwd(), 'node_modules'), '/node_modules']],
+      stdin: JSON.stringify(input),
+      timeoutMs: timeoutMs + PROCESS_STARTUP_MS,
+      maxOutputBytes: MAX_RESULT_BYTES,
+    });
+    if (run.timedOut) return timedOutResult(timeoutMs);
+    try {
+      const output = JSON.parse(run.stdout) as RenderOutput;
+      return { ...output, timedOut: false };
+    } catch {
+      return crashedResult(run.stderr.trim().split('\n').pop() || `exit code ${run.exitCode}`);
+    }
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+}
+
+function renderInWorker(input: RenderInput, timeoutMs: number): Promise<Omit<PreviewRenderResult, 'page' | 'scriptsExecuted'>> {
+  return new Promise(resolve => {
+    const worker = new Worker(rendererSource, {
+      eval: true,
+      workerData: input,
+      resourceLimits: { maxOldGenerationSizeMb: 256 },
+    });
+
+    let settled = false;
+    const finish = (result: Omit<PreviewRenderResult, 'page' | 'scriptsExecuted'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => finish(timedOutResult(timeoutMs)), timeoutMs);
+
+    worker.on('message', (message: RenderOutput) => finish({ ...message, timedOut: false }));
+    worker.on('error', error => finish(crashedResult(error.message)));
+  });
+}
+
+export async function renderPreview(files: FileItem[], page: string, options: RenderOptions = {}): Promise<PreviewRenderResult> {
+  const { timeoutMs = RENDER_TIMEOUT_MS } = options;
+  const pagePath = normalizePath(page);
+  const fileMap: Record<string, string> = {};
+  for (const file of flattenFiles(files)) {
+    if (file.type === 'file') fileMap[normalizePath(file.path)] = file.content ?? '';
+  }
+
+  const sandboxed = await detectSandboxIsolation() === 'full';
+  const input: RenderInput = {
+    html: options.html ?? fileMap[pagePath] ?? '',
+    page: pagePath,
+    files: fileMap,
+    origin: PREVIEW_ORIGIN,
+    settleMs: SETTLE_MS,
+    runScripts: sandboxed,
+  };
+  const result = sandboxed ? await renderInSandbox(input, timeoutMs) : await renderInWorker(input, timeoutMs);
+  return { page: pagePath, ...result, scriptsExecuted: sandboxed };
+}
@@ -0,0 +1,71 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db';
+import { projectInstructions } from '@/db/schema';
+
+export const MAX_INSTRUCTIONS_CHARS = 8_000;
+const MAX_LISTED_VERSIONS = 20;
+
+export interface ProjectInstructions {
+  version: number;
+  content: string;
+  createdAt: Date | null;
+}
+
+export class InstructionsConflictError extends Error {}
+
+export const instructionsUpdateSchema = z.object({
+  content: z.string().max(MAX_INSTRUCTIONS_CHARS),
+  baseVersion: z.number().int().min(0),
+});
+
+const emptyInstructions: ProjectInstructions = { version: 0, content: '', createdAt: null };
+
+export async function loadProjectInstructions(projectId: string, version?: number): Promise<ProjectInstructions> {
+  const [latest] = await db
+    .select({ version: projectInstructions.version, content: projectInstructions.content, createdAt: projectInstructions.createdAt })
+    .from(projectInstructions)
+    .where(version === undefined
+      ? eq(projectInstructions.projectId, projectId)
+      : and(eq(projectInstructions.projectId, projectId), eq(projectInstructions.version, version)))
+    .orderBy(desc(projectInstructions.version))
+    .limit(1);
+  return latest ?? emptyInstructions;
+}
+
+export async function listInstructionVersions(projectId: string): Promise<ProjectInstructions[]> {
+  return db
+    .select({ version: projectInstructions.version, content: projectInstructions.content, createdAt: projectInstructions.createdAt })
+    .from(projectInstructions)
+    .where(eq(projectInstructions.projectId, projectId))
+    .orderBy(desc(projectInstructions.version))
+    .limit(MAX_LISTED_VERSIONS);
+}
+
+// Every save is a new version; `baseVersion` is the version the editor started from, so two tabs
+// editing at once cannot silently overwrite each other.
+export async function saveProjectInstructions(projectId: string, content: string, baseVersion: number): Promise<ProjectInstructions> {
+  const current = await loadProjectInstructions(projectId);
+  if (current.version !== baseVersion) {
+    throw new InstructionsConflictError(`Instructions were changed elsewhere (now version ${current.version})`);
+  }
+  const text = content.trim();
+  if (text === current.content) return current;
+
+  try {
+    const [saved] = await db.insert(projectInstructions)
+      .values({ projectId, version: current.version + 1, content: text })
+      .returning({ version: projectInstructions.version, content: projectInstructions.content, createdAt: projectInstructions.createdAt });
+    return saved;
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      throw new InstructionsConflictError('Instructions were changed elsewhere while saving');
+    }
+    throw error;
+  }
+}
+
+export function instructionsPromptSection(instructions: ProjectInstructions): string {
+  if (!instructions.content) return '';
+  return `\n\n## PROJECT INSTRUCTIONS (set by the user, always follow these)\n${instructions.content}`;
+}
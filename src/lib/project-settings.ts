@@ -0,0 +1,281 @@
+import { z } from 'zod';
+
+export interface SEOSettings {
+  title: string;
+  description: string;
+  keywords: string;
+  ogImage: string;
+  favicon: string;
+  robots: string;
+}
+
+export interface DeploymentConfig {
+  type: 'autoscale' | 'vm' | 'static' | 'scheduled';
+  cpu?: number;
+  ram?: number;
+  vmSize?: 'shared' | 'dedicated-1' | 'dedicated-2' | 'dedicated-4';
+}
+
+export interface IntegrationItem {
+  id: string;
+  name: string;
+  enabled: boolean;
+  apiKey?: string;
+}
+
+export interface PackageItem {
+  name: string;
+  version: string;
+  installed: boolean;
+}
+
+export interface ProjectSettings {
+  seoSettings: SEOSettings;
+  deploymentConfig: DeploymentConfig;
+  integrations: IntegrationItem[];
+  packages: PackageItem[];
+}
+
+// Packages are only read here; install_package keeps appending to them as before.
+export type SettingsSection = 'seoSettings' | 'deploymentConfig' | 'integrations';
+
+export interface SettingChange {
+  section: SettingsSection;
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export class SettingsError extends Error {}
+
+export const defaultDeployment: DeploymentConfig = {
+  type: 'autoscale',
+  cpu: 1,
+  ram: 2
+};
+
+export const defaultSEO: SEOSettings = {
+  title: '',
+  description: '',
+  keywords: '',
+  ogImage: '',
+  favicon: '',
+  robots: 'index, follow'
+};
+
+export const availableIntegrations: IntegrationItem[] = [
+  { id: 'analytics', name: 'Google Analytics', enabled: false },
+  { id: 'gtm', name: 'Google Tag Manager', enabled: false },
+  { id: 'mixpanel', name: 'Mixpanel', enabled: false },
+  { id: 'amplitude', name: 'Amplitude', enabled: false },
+  { id: 'segment', name: 'Segment', enabled: false },
+  { id: 'hotjar', name: 'Hotjar', enabled: false },
+  { id: 'posthog', name: 'PostHog', enabled: false },
+  { id: 'stripe', name: 'Stripe Payments', enabled: false },
+  { id: 'paypal', name: 'PayPal', enabled: false },
+  { id: 'square', name: 'Square Payments', enabled: false },
+  { id: 'braintree', name: 'Braintree', enabled: false },
+  { id: 'paddle', name: 'Paddle', enabled: false },
+  { id: 'lemonsqueezy', name: 'Lemon Squeezy', enabled: false },
+  { id: 'auth0', name: 'Auth0', enabled: false },
+  { id: 'clerk', name: 'Clerk', enabled: false },
+  { id: 'nextauth', name: 'NextAuth.js', enabled: false },
+  { id: 'supabase-auth', name: 'Supabase Auth', enabled: false },
+  { id: 'firebase-auth', name: 'Firebase Auth', enabled: false },
+  { id: 'okta', name: 'Okta', enabled: false },
+  { id: 'keycloak', name: 'Keycloak', enabled: false },
+  { id: 'cloudinary', name: 'Cloudinary', enabled: false },
+  { id: 'uploadthing', name: 'UploadThing', enabled: false },
+  { id: 'imagekit', name: 'ImageKit', enabled: false },
+  { id: 'bunnycdn', name: 'BunnyCDN', enabled: false },
+  { id: 'cloudflare-images', name: 'Cloudflare Images', enabled: false },
+  { id: 'sendgrid', name: 'SendGrid', enabled: false },
+  { id: 'resend', name: 'Resend', enabled: false },
+  { id: 'postmark', name: 'Postmark', enabled: false },
+  { id: 'mailgun', name: 'Mailgun', enabled: false },
+  { id: 'mailchimp', name: 'Mailchimp', enabled: false },
+  { id: 'convertkit', name: 'ConvertKit', enabled: false },
+  { id: 'twilio', name: 'Twilio', enabled: false },
+  { id: 'vonage', name: 'Vonage', enabled: false },
+  { id: 'messagebird', name: 'MessageBird', enabled: false },
+  { id: 'firebase', name: 'Firebase', enabled: false },
+  { id: 'supabase', name: 'Supabase', enabled: false },
+  { id: 'planetscale', name: 'PlanetScale', enabled: false },
+  { id: 'neon', name: 'Neon Database', enabled: false },
+  { id: 'xata', name: 'Xata', enabled: false },
+  { id: 'turso', name: 'Turso', enabled: false },
+  { id: 'mongodb', name: 'MongoDB Atlas', enabled: false },
+  { id: 'fauna', name: 'Fauna', enabled: false },
+  { id: 'cockroachdb', name: 'CockroachDB', enabled: false },
+  { id: 'redis', name: 'Redis/Upstash', enabled: false },
+  { id: 'openai', name: 'OpenAI', enabled: false },
+  { id: 'anthropic', name: 'Anthropic Claude', enabled: false },
+  { id: 'google-ai', name: 'Google AI (Gemini)', enabled: false },
+  { id: 'cohere', name: 'Cohere', enabled: false },
+  { id: 'replicate', name: 'Replicate', enabled: false },
+  { id: 'huggingface', name: 'Hugging Face', enabled: false },
+  { id: 'stability', name: 'Stability AI', enabled: false },
+  { id: 'elevenlabs', name: 'ElevenLabs', enabled: false },
+  { id: 'vercel', name: 'Vercel', enabled: false },
+  { id: 'netlify', name: 'Netlify', enabled: false },
+  { id: 'railway', name: 'Railway', enabled: false },
+  { id: 'render', name: 'Render', enabled: false },
+  { id: 'fly', name: 'Fly.io', enabled: false },
+  { id: 'aws', name: 'AWS', enabled: false },
+  { id: 'gcp', name: 'Google Cloud', enabled: false },
+  { id: 'azure', name: 'Azure', enabled: false },
+  { id: 'digitalocean', name: 'DigitalOcean', enabled: false },
+  { id: 'cloudflare', name: 'Cloudflare', enabled: false },
+  { id: 'github', name: 'GitHub', enabled: false },
+  { id: 'gitlab', name: 'GitLab', enabled: false },
+  { id: 'bitbucket', name: 'Bitbucket', enabled: false },
+  { id: 'linear', name: 'Linear', enabled: false },
+  { id: 'jira', name: 'Jira', enabled: false },
+  { id: 'notion', name: 'Notion', enabled: false },
+  { id: 'slack', name: 'Slack', enabled: false },
+  { id: 'discord', name: 'Discord', enabled: false },
+  { id: 'telegram', name: 'Telegram', enabled: false },
+  { id: 'sentry', name: 'Sentry', enabled: false },
+  { id: 'datadog', name: 'Datadog', enabled: false },
+  { id: 'logrocket', name: 'LogRocket', enabled: false },
+  { id: 'newrelic', name: 'New Relic', enabled: false },
+  { id: 'algolia', name: 'Algolia', enabled: false },
+  { id: 'meilisearch', name: 'Meilisearch', enabled: false },
+  { id: 'typesense', name: 'Typesense', enabled: false },
+  { id: 'elasticsearch', name: 'Elasticsearch', enabled: false },
+  { id: 'shopify', name: 'Shopify', enabled: false },
+  { id: 'woocommerce', name: 'WooCommerce', enabled: false },
+  { id: 'snipcart', name: 'Snipcart', enabled: false },
+  { id: 'medusa', name: 'Medusa', enabled: false },
+  { id: 'contentful', name: 'Contentful', enabled: false },
+  { id: 'sanity', name: 'Sanity', enabled: false },
+  { id: 'strapi', name: 'Strapi', enabled: false },
+  { id: 'prismic', name: 'Prismic', enabled: false },
+  { id: 'datocms', name: 'DatoCMS', enabled: false },
+  { id: 'storyblok', name: 'Storyblok', enabled: false },
+];
+
+export const seoSettingsSchema = z.object({
+  title: z.string().max(200),
+  description: z.string().max(1000),
+  keywords: z.string().max(500),
+  ogImage: z.string().max(2048),
+  favicon: z.string().max(2048),
+  robots: z.enum(['index, follow', 'noindex, follow', 'index, nofollow', 'noindex, nofollow']),
+});
+
+export const deploymentConfigSchema = z.object({
+  type: z.enum(['autoscale', 'vm', 'static', 'scheduled']),
+  cpu: z.number().positive().max(64).optional(),
+  ram: z.number().positive().max(256).optional(),
+  vmSize: z.enum(['shared', 'dedicated-1', 'dedicated-2', 'dedicated-4']).optional(),
+});
+
+export const integrationItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  enabled: z.boolean(),
+  apiKey: z.string().max(500).optional(),
+});
+
+export const projectSettingsPatchSchema = z.object({
+  seoSettings: seoSettingsSchema.optional(),
+  deploymentConfig: deploymentConfigSchema.optional(),
+  integrations: z.array(integrationItemSchema).optional(),
+});
+
+const integrationUpdateSchema = z.object({
+  integrationId: z.string().min(1),
+  enabled: z.boolean().optional(),
+  apiKey: z.string().max(500).optional(),
+});
+
+const updateSchemas = {
+  seoSettings: seoSettingsSchema.partial(),
+  deploymentConfig: deploymentConfigSchema.partial(),
+  integrations: integrationUpdateSchema,
+};
+
+// Columns that were never saved fall back to the same defaults the editor tabs show.
+export function resolveProjectSettings(stored: {
+  seoSettings?: unknown;
+  deploymentConfig?: unknown;
+  integrations?: unknown;
+  packages?: unknown;
+} | null | undefined): ProjectSettings {
+  return {
+    seoSettings: { ...defaultSEO, ...(stored?.seoSettings as Partial<SEOSettings> | null) },
+    deploymentConfig: (stored?.deploymentConfig as DeploymentConfig | null) ?? defaultDeployment,
+    integrations: (stored?.integrations as IntegrationItem[] | null) ?? availableIntegrations,
+    packages: (stored?.packages as PackageItem[] | null) ?? [],
+  };
+}
+
+function diff(section: SettingsSection, before: object, after: object, prefix = ''): SettingChange[] {
+  const changes: SettingChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    const from = (before as Record<string, unknown>)[key];
+    const to = (after as Record<string, unknown>)[key];
+    if (from !== to) changes.push({ section, field: `${prefix}${key}`, from, to });
+  }
+  return changes;
+}
+
+export function updateProjectSettings(
+  settings: ProjectSettings,
+  section: SettingsSection,
+  update: unknown
+): { settings: ProjectSettings; changes: SettingChange[] } {
+  const parsed = updateSchemas[section].safeParse(update);
+  if (!parsed.success) throw new SettingsError(z.prettifyError(parsed.error));
+
+  if (section === 'integrations') {
+    const { integrationId, ...fields } = parsed.data as z.infer<typeof integrationUpdateSchema>;
+    const current = settings.integrations.find(i => i.id === integrationId)
+      ?? availableIntegrations.find(i => i.id === integrationId);
+    if (!current) {
+      throw new SettingsError(`Unknown integration "${integrationId}". Call get_project_settings for the available ids.`);
+    }
+    const next = { ...current, ...fields };
+    const integrations = settings.integrations.some(i => i.id === integrationId)
+      ? settings.integrations.map(i => i.id === integrationId ? next : i)
+      : [...settings.integrations, next];
+    return { settings: { ...settings, integrations }, changes: diff(section, current, next, `${integrationId}.`) };
+  }
+
+  const next = { ...settings[section], ...(parsed.data as object) };
+  const validated = (section === 'seoSettings' ? seoSettingsSchema : deploymentConfigSchema).safeParse(next);
+  if (!validated.success) throw new SettingsError(z.prettifyError(validated.error));
+  return { settings: { ...settings, [section]: validated.data }, changes: diff(section, settings[section], validated.data) };
+}
+
+function maskSecret(field: string, value: unknown): unknown {
+  return field.endsWith('.apiKey') && typeof value === 'string' && value ? '••••••' : value;
+}
+
+// API keys never go back to the model; it only learns whether one is set.
+export function settingsForAgent(settings: ProjectSettings) {
+  return {
+    seoSettings: settings.seoSettings,
+    deploymentConfig: settings.deploymentConfig,
+    integrations: settings.integrations.map(({ apiKey, ...integration }) => ({ ...integration, hasApiKey: Boolean(apiKey) })),
+    packages: settings.packages,
+  };
+}
+
+export function maskSettingChange(change: SettingChange): SettingChange {
+  return { ...change, from: maskSecret(change.field, change.from), to: maskSecret(change.field, change.to) };
+}
+
+const sectionLabels: Record<SettingsSection, string> = {
+  seoSettings: 'SEO',
+  deploymentConfig: 'Deployment',
+  integrations: 'Integration',
+};
+
+export function formatSettingChange(change: SettingChange): string {
+  const { from, to } = maskSettingChange(change);
+  const show = (value: unknown) => value === undefined || value === '' ? '(empty)' : JSON.stringify(value);
+  return `${sectionLabels[change.section]} ${change.field}: ${show(from)} → ${show(to)}`;
+}
@@ -0,0 +1,89 @@
+export interface RankableEntry<T> {
+  item: T;
+  text: string;
+  embedding?: number[] | null;
+  boost?: number;
+}
+
+export interface RankedEntry<T> {
+  item: T;
+  score: number;
+}
+
+const stopWords = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'with', 'was', 'were', 'will', 'me', 'my', 'we', 'our', 'you', 'your', 'please',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !stopWords.has(token));
+}
+
+export function bm25Scores(query: string, documents: string[], k1 = 1.5, b = 0.75): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const docs = documents.map(tokenize);
+  if (queryTerms.length === 0 || docs.length === 0) return documents.map(() => 0);
+
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return docs.map(doc => {
+    const termFrequency = new Map<string, number>();
+    for (const term of doc) termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term) ?? 0;
+      if (tf === 0) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / avgLength));
+    }
+    return score;
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Entries with an embedding are scored mostly by cosine similarity; the normalized BM25 score keeps
+// exact keyword hits relevant and is the only signal for entries (or providers) without embeddings.
+export function rankEntries<T>(
+  query: string,
+  entries: RankableEntry<T>[],
+  options: { queryEmbedding?: number[] | null; limit: number; minScore?: number }
+): RankedEntry<T>[] {
+  const lexical = bm25Scores(query, entries.map(entry => entry.text));
+  const maxLexical = Math.max(0, ...lexical);
+  const { queryEmbedding, limit, minScore = 0.05 } = options;
+
+  return entries
+    .map((entry, i) => {
+      const keyword = maxLexical > 0 ? lexical[i] / maxLexical : 0;
+      const semantic = queryEmbedding && entry.embedding ? cosineSimilarity(queryEmbedding, entry.embedding) : null;
+      const relevance = semantic === null ? keyword : 0.7 * semantic + 0.3 * keyword;
+      return { item: entry.item, relevance, score: relevance + (entry.boost ?? 0) };
+    })
+    .filter(entry => entry.relevance >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ item, score }) => ({ item, score }));
+}
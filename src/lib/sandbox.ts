@@ -0,0 +1,291 @@
+import { spawn } from 'child_process';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+export interface SandboxFile {
+  name: string;
+  type: 'file' | 'folder';
+  path: string;
+  content?: string;
+  children?: SandboxFile[];
+}
+
+export interface SandboxResult {
+  command: string;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+export class SandboxError extends Error {}
+
+const TIMEOUT_MS = 30_000;
+const CPU_SECONDS = 20;
+const MEMORY_KB = 2 * 1024 * 1024;
+const MAX_FILE_BLOCKS = 100 * 1024;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+
+const allowedCommands = new Set([
+  'node', 'npm', 'ls', 'cat', 'pwd', 'echo', 'head', 'tail', 'wc', 'grep', 'find', 'python3',
+]);
+
+// These run arbitrary project code, so they are only allowed inside the bubblewrap sandbox.
+const interpreterCommands = new Set(['node', 'npm', 'python3']);
+
+const allowedNpmSubcommands = new Set(['test', 't', 'run', 'run-script', 'start', 'ls', 'list', 'version', '-v', '--version']);
+
+const blockedFindActions = new Set(['-exec', '-execdir', '-ok', '-okdir', '-delete', '-fprint', '-fprint0', '-fprintf', '-fls']);
+
+const SANDBOX_WORKDIR = '/workspace';
+const SANDBOX_UID = '65534';
+
+// 'full': bubblewrap with only the runtime (read-only) and the workspace mounted, as an unprivileged user,
+// with no network and an empty environment. 'network': `unshare --net` only. 'none': no isolation at all.
+export type SandboxIsolation = 'full' | 'network' | 'none';
+
+let isolation: Promise<SandboxIsolation> | null = null;
+
+// Node may be installed outside /usr (e.g. nvm), so its install prefix is mounted as well.
+const runtimeRoot = path.dirname(path.dirname(process.execPath));
+
+function bubblewrapArgs(workspace: string, mounts: [string, string][], env: Record<string, string>): string[] {
+  const readOnly = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc/alternatives', '/etc/ld.so.cache', runtimeRoot]
+    .filter(dir => dir !== '/');
+  return [
+    '--unshare-all', '--die-with-parent', '--new-session', '--clearenv',
+    '--uid', SANDBOX_UID, '--gid', SANDBOX_UID,
+    ...readOnly.flatMap(dir => ['--ro-bind-try', dir, dir]),
+    '--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp',
+    '--bind', workspace, SANDBOX_WORKDIR,
+    ...mounts.flatMap(([source, target]) => ['--ro-bind', source, target]),
+    '--chdir', SANDBOX_WORKDIR,
+    ...Object.entries(env).flatMap(([name, value]) => ['--setenv', name, value]),
+    '--',
+  ];
+}
+
+// Only what is needed to find bwrap/unshare; the sandboxed program gets its own environment.
+function hostEnv(): NodeJS.ProcessEnv {
+  return { PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin', NODE_ENV: 'development' };
+}
+
+function probe(program: string, args: string[]): Promise<boolean> {
+  return new Promise(resolve => {
+    const child = spawn(program, args, { stdio: 'ignore', env: hostEnv() });
+    child.on('error', () => resolve(false));
+    child.on('exit', code => resolve(code === 0));
+  });
+}
+
+export function detectSandboxIsolation(): Promise<SandboxIsolation> {
+  isolation ??= (async () => {
+    if (process.platform !== 'linux') return 'none';
+    if (await probe('bwrap', [...bubblewrapArgs(tmpdir(), [], {}), '/bin/true'])) return 'full';
+    if (await probe('unshare', ['--net', '--map-root-user', 'true'])) return 'network';
+    return 'none';
+  })();
+  return isolation;
+}
+
+// Rejects arguments that reach outside the workspace, including option values such as `--file=/etc/passwd`.
+function escapesWorkspace(arg: string): boolean {
+  return arg.split(/[/=]/).includes('..') || /(^|[=:,]|^-[A-Za-z]+)\//.test(arg);
+}
+
+export function parseCommand(command: string): string[] {
+  if (/[;&|<>`$\\\n]/.test(command)) {
+    throw new SandboxError('Shell operators, redirection and substitution are not allowed in sandboxed commands');
+  }
+
+  const argv: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command)) !== null) {
+    argv.push(match[1] ?? match[2] ?? match[3]);
+  }
+
+  if (argv.length === 0) {
+    throw new SandboxError('Empty command');
+  }
+
+  const [program, subcommand] = argv;
+  if (!allowedCommands.has(program)) {
+    throw new SandboxError(`Command "${program}" is not allowed. Allowed commands: ${[...allowedCommands].join(', ')}`);
+  }
+  if (program === 'npm' && !allowedNpmSubcommands.has(subcommand)) {
+    throw new SandboxError(`"npm ${subcommand ?? ''}" is not allowed in the sandbox (no network). Use install_package to add dependencies.`);
+  }
+  if (program === 'find' && argv.some(arg => blockedFindActions.has(arg))) {
+    throw new SandboxError('find can only list files in the sandbox; -exec, -delete and -fprint are not allowed');
+  }
+  if (argv.some(escapesWorkspace)) {
+    throw new SandboxError('Arguments must be relative paths inside the project workspace');
+  }
+
+  return argv;
+}
+
+async function materializeFiles(root: string, items: SandboxFile[]) {
+  for (const item of items) {
+    const target = path.resolve(root, `.${item.path.startsWith('/') ? item.path : `/${item.path}`}`);
+    if (target !== root && !target.startsWith(root + path.sep)) continue;
+
+    if (item.type === 'folder') {
+      await mkdir(target, { recursive: true });
+      if (item.children) await materializeFiles(root, item.children);
+      continue;
+    }
+
+    await mkdir(path.dirname(target), { recursive: true });
+    const content = item.content ?? '';
+    const dataUrl = content.match(/^data:[^;]+;base64,([\s\S]*)$/);
+    await writeFile(target, dataUrl ? Buffer.from(dataUrl[1], 'base64') : content);
+  }
+}
+
+export interface IsolatedRunOptions {
+  // Extra read-only mounts inside the sandbox, as [host path, sandbox path].
+  mounts?: [string, string][];
+  env?: Record<string, string>;
+  stdin?: string;
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+}
+
+export interface IsolatedRunResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+// Runs `argv` in `workspace` inside the bubblewrap sandbox with CPU, memory and file size limits.
+export async function runIsolated(argv: string[], workspace: string, options: IsolatedRunOptions = {}): Promise<IsolatedRunResult> {
+  if (await detectSandboxIsolation() !== 'full') {
+    throw new SandboxError('The bubblewrap sandbox (bwrap) is unavailable on this host');
+  }
+  const env = {
+    PATH: `${path.join(runtimeRoot, 'bin')}:/usr/local/bin:/usr/bin:/bin`,
+    HOME: SANDBOX_WORKDIR,
+    TMPDIR: '/tmp',
+    ...options.env,
+  };
+  return spawnLimited(['bwrap', ...bubblewrapArgs(workspace, options.mounts ?? [], env)], argv, workspace, hostEnv(), options);
+}
+
+function spawnLimited(
+  prefix: string[],
+  argv: string[],
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+  options: Pick<IsolatedRunOptions, 'stdin' | 'timeoutMs' | 'maxOutputBytes'>
+): Promise<IsolatedRunResult> {
+  const { stdin, timeoutMs = TIMEOUT_MS, maxOutputBytes = MAX_OUTPUT_BYTES } = options;
+  const limits = `ulimit -t ${CPU_SECONDS}; ulimit -v ${MEMORY_KB}; ulimit -f ${MAX_FILE_BLOCKS}; exec "$@"`;
+  const [program, ...args] = [...prefix, '/bin/sh', '-c', limits, 'sandbox', ...argv];
+
+  return new Promise<IsolatedRunResult>((resolve, reject) => {
+    const child = spawn(program, args, {
+      cwd,
+      detached: true,
+      stdio: 'pipe',
+      env,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let truncated = false;
+    let timedOut = false;
+
+    const collect = (chunk: Buffer, current: string) => {
+      if (current.length >= maxOutputBytes) {
+        truncated = true;
+        return current;
+      }
+      const next = current + chunk.toString('utf8');
+      if (next.length > maxOutputBytes) truncated = true;
+      return next.slice(0, maxOutputBytes);
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => { stdout = collect(chunk, stdout); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr = collect(chunk, stderr); });
+    child.stdin.on('error', () => {});
+    child.stdin.end(stdin ?? '');
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, timeoutMs);
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      resolve({ exitCode: timedOut ? null : code, signal, stdout, stderr, timedOut, truncated });
+    });
+  });
+}
+
+export async function runSandboxedCommand(command: string, files: SandboxFile[]): Promise<SandboxResult> {
+  const argv = parseCommand(command.trim());
+
+  const level = await detectSandboxIsolation();
+  if (level !== 'full' && interpreterCommands.has(argv[0])) {
+    throw new SandboxError(`"${argv[0]}" needs the bubblewrap sandbox (bwrap), which is not installed on this host. Only ls, cat, pwd, echo, head, tail, wc, grep and find are available`);
+  }
+  if (level === 'none') {
+    throw new SandboxError('No sandbox is available on this host (neither bwrap nor unshare --net works); refusing to run commands');
+  }
+
+  const workspace = await mkdtemp(path.join(tmpdir(), 'hgland-sandbox-'));
+  const started = Date.now();
+
+  try {
+    await materializeFiles(workspace, files);
+
+    const run = level === 'full'
+      ? await runIsolated(argv, workspace, {
+        env: {
+          CI: '1',
+          NODE_ENV: 'development',
+          npm_config_offline: 'true',
+          npm_config_cache: path.join(SANDBOX_WORKDIR, '.npm-cache'),
+          npm_config_update_notifier: 'false',
+        },
+      })
+      : await spawnLimited(['unshare', '--net', '--map-root-user'], argv, workspace, {
+        ...hostEnv(),
+        HOME: workspace,
+        TMPDIR: workspace,
+      }, {});
+
+    let note = '';
+    if (run.timedOut) note = `\nCommand timed out after ${TIMEOUT_MS / 1000}s`;
+    else if (run.signal === 'SIGXCPU') note = `\nCommand exceeded the ${CPU_SECONDS}s CPU limit`;
+    else if (run.signal) note = `\nCommand killed by ${run.signal}`;
+    return {
+      command,
+      exitCode: run.exitCode,
+      stdout: run.stdout,
+      stderr: run.stderr + note,
+      timedOut: run.timedOut,
+      truncated: run.truncated,
+      durationMs: Date.now() - started,
+    };
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+}
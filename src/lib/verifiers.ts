@@ -0,0 +1,323 @@
+import ts from 'typescript';
+import postcss, { CssSyntaxError } from 'postcss';
+import { parse as parseHTML, DefaultTreeAdapterMap } from 'parse5';
+import { FileItem, flattenFiles, normalizePath } from '@/lib/file-tree';
+import { renderPreview } from '@/lib/preview-render';
+
+export interface VerificationIssue {
+  verifier: string;
+  severity: 'error' | 'warning';
+  path: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface VerifierContext {
+  files: FileItem[];
+  changedFiles: FileItem[];
+}
+
+export interface Verifier {
+  name: string;
+  verify(context: VerifierContext): VerificationIssue[] | Promise<VerificationIssue[]>;
+}
+
+function extension(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+}
+
+function fileIndex(files: FileItem[]): Map<string, FileItem> {
+  return new Map(flattenFiles(files).filter(f => f.type === 'file').map(f => [normalizePath(f.path), f]));
+}
+
+// Parse errors that cut the document off or swallow the rest of it into a tag, comment or text element.
+// Every other parse error is recovered from the way browsers do, so it is reported but never fails a step.
+const structuralHTMLErrors = new Set([
+  'eof-before-tag-name',
+  'eof-in-tag',
+  'eof-in-doctype',
+  'eof-in-comment',
+  'eof-in-cdata',
+  'eof-in-script-html-comment-like-text',
+  'eof-in-element-that-can-contain-only-text',
+]);
+
+type HTMLNode = DefaultTreeAdapterMap['node'];
+
+function walkElements(node: HTMLNode, visit: (element: DefaultTreeAdapterMap['element']) => void) {
+  if ('tagName' in node) visit(node);
+  if ('childNodes' in node) node.childNodes.forEach(child => walkElements(child, visit));
+  if ('content' in node && node.content) walkElements(node.content, visit);
+}
+
+export const htmlVerifier: Verifier = {
+  name: 'html',
+  verify({ files, changedFiles }) {
+    const index = fileIndex(files);
+    const issues: VerificationIssue[] = [];
+
+    for (const file of changedFiles.filter(f => ['html', 'htm'].includes(extension(f.path)))) {
+      const path = normalizePath(file.path);
+      const document = parseHTML(file.content ?? '', {
+        sourceCodeLocationInfo: true,
+        onParseError: error => issues.push({
+          verifier: 'html',
+          severity: structuralHTMLErrors.has(error.code) ? 'error' : 'warning',
+          path,
+          line: error.startLine,
+          column: error.startCol,
+          message: `HTML parse error: ${error.code}`,
+        }),
+      });
+
+      walkElements(document, element => {
+        const attribute = { script: 'src', img: 'src', link: 'href', source: 'src' }[element.tagName as string];
+        const ref = attribute && element.attrs.find(attr => attr.name === attribute)?.value;
+        if (!ref || /^(data|blob|mailto|tel|javascript):/i.test(ref) || ref.startsWith('#')) return;
+
+        const url = new URL(ref, `http://preview.local${path}`);
+        if (url.origin !== 'http://preview.local') return;
+        const target = decodeURIComponent(url.pathname);
+        if (!index.has(target)) {
+          issues.push({
+            verifier: 'html',
+            severity: 'error',
+            path,
+            line: element.sourceCodeLocation?.startLine,
+            column: element.sourceCodeLocation?.startCol,
+            message: `<${element.tagName}> references ${ref}, but ${target} does not exist in the project`,
+          });
+        }
+      });
+    }
+    return issues;
+  },
+};
+
+export const cssVerifier: Verifier = {
+  name: 'css',
+  verify({ changedFiles }) {
+    const issues: VerificationIssue[] = [];
+    for (const file of changedFiles.filter(f => extension(f.path) === 'css')) {
+      try {
+        postcss.parse(file.content ?? '', { from: file.path });
+      } catch (error) {
+        if (!(error instanceof CssSyntaxError)) throw error;
+        issues.push({
+          verifier: 'css',
+          severity: 'error',
+          path: normalizePath(file.path),
+          line: error.line,
+          column: error.column,
+          message: `CSS syntax error: ${error.reason}`,
+        });
+      }
+    }
+    return issues;
+  },
+};
+
+const scriptExtensions = new Set(['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx']);
+
+function diagnosticIssue(verifier: string, path: string, diagnostic: ts.Diagnostic): VerificationIssue {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : null;
+  return {
+    verifier,
+    severity: 'error',
+    path,
+    line: position ? position.line + 1 : undefined,
+    column: position ? position.character + 1 : undefined,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+  };
+}
+
+export const scriptSyntaxVerifier: Verifier = {
+  name: 'script-syntax',
+  verify({ changedFiles }) {
+    const issues: VerificationIssue[] = [];
+    for (const file of changedFiles.filter(f => scriptExtensions.has(extension(f.path)))) {
+      const path = normalizePath(file.path);
+      // Plain .js files in these projects often contain JSX, so they are parsed as .jsx.
+      const fileName = /\.(m|c)?js$/.test(path) ? path.replace(/\.(m|c)?js$/, '.jsx') : path;
+      const { diagnostics = [] } = ts.transpileModule(file.content ?? '', {
+        fileName,
+        reportDiagnostics: true,
+        compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ES2022 },
+      });
+      issues.push(...diagnostics.map(d => diagnosticIssue('script-syntax', path, d)));
+    }
+    return issues;
+  },
+};
+
+const PROJECT_ROOT = '/__project__';
+
+// Unresolvable npm packages and missing React typings are expected in a file-only project, not step failures.
+const ignoredTypeErrors = new Set([2307, 2792, 7016, 2875, 2503, 2686, 17004]);
+
+export const typeCheckVerifier: Verifier = {
+  name: 'typescript',
+  verify({ files, changedFiles }) {
+    const targets = changedFiles.filter(f => ['ts', 'tsx'].includes(extension(f.path)));
+    if (targets.length === 0) return [];
+
+    const index = fileIndex(files);
+    const toProjectPath = (fileName: string) => fileName.startsWith(PROJECT_ROOT) ? fileName.slice(PROJECT_ROOT.length) : null;
+    const options: ts.CompilerOptions = {
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      jsx: ts.JsxEmit.Preserve,
+      lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+      types: [],
+      skipLibCheck: true,
+      strict: false,
+    };
+
+    const host = ts.createCompilerHost(options);
+    const baseGetSourceFile = host.getSourceFile;
+    host.getCurrentDirectory = () => PROJECT_ROOT;
+    host.fileExists = fileName => {
+      const projectPath = toProjectPath(fileName);
+      return projectPath !== null ? index.has(projectPath) : ts.sys.fileExists(fileName);
+    };
+    host.readFile = fileName => {
+      const projectPath = toProjectPath(fileName);
+      return projectPath !== null ? index.get(projectPath)?.content : ts.sys.readFile(fileName);
+    };
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      const projectPath = toProjectPath(fileName);
+      if (projectPath === null) return baseGetSourceFile(fileName, languageVersion, onError, shouldCreate);
+      const file = index.get(projectPath);
+      return file ? ts.createSourceFile(fileName, file.content ?? '', languageVersion, true) : undefined;
+    };
+    host.directoryExists = directoryName => {
+      const projectPath = toProjectPath(directoryName);
+      if (projectPath === null) return ts.sys.directoryExists(directoryName);
+      return [...index.keys()].some(path => path.startsWith(`${projectPath}/`));
+    };
+
+    const rootNames = targets.map(f => `${PROJECT_ROOT}${normalizePath(f.path)}`);
+    const program = ts.createProgram({ rootNames, options, host });
+
+    return rootNames.flatMap(rootName => {
+      const sourceFile = program.getSourceFile(rootName);
+      if (!sourceFile) return [];
+      return program.getSemanticDiagnostics(sourceFile)
+        .filter(d => !ignoredTypeErrors.has(d.code))
+        .map(d => diagnosticIssue('typescript', toProjectPath(rootName) ?? rootName, d));
+    });
+  },
+};
+
+export const jsonVerifier: Verifier = {
+  name: 'json',
+  verify({ changedFiles }) {
+    const issues: VerificationIssue[] = [];
+    for (const file of changedFiles.filter(f => extension(f.path) === 'json')) {
+      const path = normalizePath(file.path);
+      let data: unknown;
+      try {
+        data = JSON.parse(file.content ?? '');
+      } catch (error) {
+        issues.push({ verifier: 'json', severity: 'error', path, message: `Invalid JSON: ${(error as Error).message}` });
+        continue;
+      }
+
+      if (!path.endsWith('/package.json')) continue;
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        issues.push({ verifier: 'json', severity: 'error', path, message: 'package.json must contain a JSON object' });
+        continue;
+      }
+      const pkg = data as Record<string, unknown>;
+      if (pkg.name !== undefined && (typeof pkg.name !== 'string' || !/^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(pkg.name))) {
+        issues.push({ verifier: 'json', severity: 'error', path, message: `"${String(pkg.name)}" is not a valid package name` });
+      }
+      for (const field of ['dependencies', 'devDependencies', 'peerDependencies', 'scripts']) {
+        const value = pkg[field];
+        if (value === undefined) continue;
+        if (!value || typeof value !== 'object' || Array.isArray(value) || Object.values(value).some(v => typeof v !== 'string')) {
+          issues.push({ verifier: 'json', severity: 'error', path, message: `"${field}" must be an object of strings` });
+        }
+      }
+    }
+    return issues;
+  },
+};
+
+const MAX_RENDERED_PAGES = 3;
+
+export const smokeRenderVerifier: Verifier = {
+  name: 'render',
+  async verify({ files, changedFiles }) {
+    const index = fileIndex(files);
+    const pages = changedFiles.map(f => normalizePath(f.path)).filter(path => ['html', 'htm'].includes(extension(path)));
+    const assetsChanged = changedFiles.some(f => ['js', 'mjs', 'css'].includes(extension(f.path)));
+    if (assetsChanged && index.has('/index.html') && !pages.includes('/index.html')) pages.unshift('/index.html');
+
+    const issues: VerificationIssue[] = [];
+    for (const page of pages.slice(0, MAX_RENDERED_PAGES)) {
+      const result = await renderPreview(files, page);
+      // Without the sandbox page scripts are not run, so rendering finds nothing the HTML verifier does not.
+      if (!result.scriptsExecuted) break;
+      // Scripts from CDNs are not loaded headlessly, so errors that may stem from them are only warnings.
+      const external = result.externalResources.some(url => /\.m?js(\?|$)/.test(url));
+      // Missing local files are reported by the HTML verifier and external ones are blocked on purpose.
+      issues.push(...result.problems.filter(problem => problem.kind !== 'resource').map(problem => ({
+        verifier: 'render',
+        severity: problem.kind === 'exception' && (!external || result.timedOut) ? 'error' as const : 'warning' as const,
+        path: page,
+        message: problem.kind === 'exception'
+          ? `Rendering threw: ${problem.message}${external ? ' (the page also loads external scripts that are not available in the headless check)' : ''}`
+          : `console.error during render: ${problem.message}`,
+      })));
+    }
+    return issues;
+  },
+};
+
+export const defaultVerifiers: Verifier[] = [
+  htmlVerifier,
+  cssVerifier,
+  scriptSyntaxVerifier,
+  typeCheckVerifier,
+  jsonVerifier,
+  smokeRenderVerifier,
+];
+
+export function changedFilesBetween(before: FileItem[], after: FileItem[]): FileItem[] {
+  const previous = fileIndex(before);
+  return [...fileIndex(after).entries()]
+    .filter(([path, file]) => previous.get(path)?.content !== file.content)
+    .map(([, file]) => file);
+}
+
+export async function runVerifiers(
+  context: VerifierContext,
+  verifiers: Verifier[] = defaultVerifiers
+): Promise<VerificationIssue[]> {
+  if (context.changedFiles.length === 0) return [];
+  const results = await Promise.all(verifiers.map(async verifier => {
+    try {
+      return await verifier.verify(context);
+    } catch (error) {
+      return [{
+        verifier: verifier.name,
+        severity: 'warning' as const,
+        path: '/',
+        message: `Verifier crashed: ${error instanceof Error ? error.message : String(error)}`,
+      }];
+    }
+  }));
+  return results.flat();
+}
+
+export function formatIssue(issue: VerificationIssue): string {
+  const location = issue.line ? `${issue.path}:${issue.line}${issue.column ? `:${issue.column}` : ''}` : issue.path;
+  return `[${issue.verifier}] ${location} ${issue.message}`;
+}